@@ -1,8 +1,9 @@
 import { HTMLPage } from '../Page/HTMLPage';
 import { Render } from '../Render/Render';
-import { PageCollection } from './PageCollection';
+import { PageCollection, PageProvider, PageSource } from './PageCollection';
 import { PageFlip } from '../PageFlip';
-import { PageDensity } from '../Page/Page';
+import { Page, PageDensity } from '../Page/Page';
+import { Chapter, Outline } from '../Outline/Outline';
 
 /**
  * Сlass representing a collection of pages as HTML Element
@@ -15,9 +16,10 @@ export class HTMLPageCollection extends PageCollection {
         app: PageFlip,
         render: Render,
         element: HTMLElement,
-        items: NodeListOf<HTMLElement> | HTMLElement[]
+        items: NodeListOf<HTMLElement> | HTMLElement[],
+        provider: PageProvider = null
     ) {
-        super(app, render);
+        super(app, render, provider);
 
         this.element = element;
         this.pagesElement = items;
@@ -25,16 +27,43 @@ export class HTMLPageCollection extends PageCollection {
 
     public load(): void {
         for (const pageElement of this.pagesElement) {
-            const page = new HTMLPage(
-                this.render,
-                pageElement,
-                pageElement.dataset['density'] === 'hard' ? PageDensity.HARD : PageDensity.SOFT
-            );
-
-            page.load();
-            this.pages.push(page);
+            if (this.provider !== null)
+                this.addLazyPage(new HTMLPage(this.render, pageElement, PageDensity.SOFT));
+            else this.pages.push(this.createPage(pageElement));
         }
 
         this.createSpread();
+        this.createOutline();
+    }
+
+    public createPage(source: PageSource): HTMLPage {
+        if (!(source instanceof HTMLElement)) throw new Error('HTML element expected');
+
+        const page = new HTMLPage(
+            this.render,
+            source,
+            source.dataset['density'] === 'hard' ? PageDensity.HARD : PageDensity.SOFT
+        );
+
+        page.load();
+
+        return page;
+    }
+
+    protected renderSlot(page: Page, virtualIndex: number): void {
+        const renderSlot = this.app.getSettings().renderSlot;
+
+        if (renderSlot !== null) renderSlot((page as HTMLPage).getElement(), virtualIndex);
+    }
+
+    /**
+     * HTML pages have no url: the content comes from the provider
+     */
+    protected getErrorUrl(): string {
+        return null;
+    }
+
+    protected getPageChapters(): Chapter[] {
+        return Outline.fromElements(this.pages.map((page) => (page as HTMLPage).getElement()));
     }
 }
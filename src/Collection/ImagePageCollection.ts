@@ -1,29 +1,82 @@
-import { ImagePage } from '../Page/ImagePage';
+import { ImageDescriptor, ImagePage } from '../Page/ImagePage';
 import { Render } from '../Render/Render';
-import { PageCollection } from './PageCollection';
+import { PageCollection, PageProvider, PageSource } from './PageCollection';
 import { PageFlip } from '../PageFlip';
-import { PageDensity } from '../Page/Page';
+import { Page, PageDensity } from '../Page/Page';
 
 /**
  * Сlass representing a collection of pages as images on the canvas
  */
 export class ImagePageCollection extends PageCollection {
-    private readonly imagesHref: string[];
+    private readonly images: ImageDescriptor[];
 
-    constructor(app: PageFlip, render: Render, imagesHref: string[]) {
-        super(app, render);
+    /**
+     * @constructor
+     *
+     * @param {PageFlip} app
+     * @param {Render} render
+     * @param {ImageDescriptor[]} images - List of images (null for the lazy pages)
+     * @param {PageProvider} provider - Content provider of the lazy pages
+     */
+    constructor(
+        app: PageFlip,
+        render: Render,
+        images: ImageDescriptor[],
+        provider: PageProvider = null,
+    ) {
+        super(app, render, provider);
 
-        this.imagesHref = imagesHref;
+        this.images = images;
     }
 
     public load(): void {
-        for (const href of this.imagesHref) {
-            const page = new ImagePage(this.render, href, PageDensity.SOFT);
-
-            page.load();
-            this.pages.push(page);
+        for (const image of this.images) {
+            if (this.provider !== null)
+                this.addLazyPage(new ImagePage(this.render, null, PageDensity.SOFT));
+            else this.pages.push(this.createPage(image));
         }
 
         this.createSpread();
+        this.createOutline();
+    }
+
+    public createPage(source: PageSource): ImagePage {
+        if (!ImagePage.isImageDescriptor(source)) throw new Error('Image descriptor expected');
+
+        const page = new ImagePage(this.render, source, PageDensity.SOFT);
+        this.watchLoading(page, page.updateResolution());
+
+        return page;
+    }
+
+    protected getErrorUrl(page: Page): string {
+        return (page as ImagePage).getFailedSrc();
+    }
+
+    /**
+     * Load a better resolution of the pages around the current spread if the book grows or zooms
+     */
+    public updateResolution(): void {
+        const spread = this.getSpread();
+
+        const from = Math.max(this.currentSpreadIndex - 1, 0);
+        const to = Math.min(this.currentSpreadIndex + 1, spread.length - 1);
+
+        for (let i = from; i <= to; i++) {
+            for (const pageIndex of spread[i]) {
+                const page = this.getBookPage(pageIndex) as ImagePage;
+
+                // The current image is kept if the better one is not loaded
+                if (page !== null)
+                    void page.updateResolution().catch(() => this.reportPageError(page));
+            }
+        }
+    }
+
+    /**
+     * Image pages have no slot element: the content of the virtual pages is not changed on the Canvas mode
+     */
+    protected renderSlot(): void {
+        return;
     }
 }
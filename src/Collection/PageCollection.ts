@@ -1,10 +1,31 @@
 import { Orientation, Render } from '../Render/Render';
 import { Page, PageDensity } from '../Page/Page';
 import { PageFlip } from '../PageFlip';
+import { ReadingDirection } from '../Settings';
+import { Chapter, Outline } from '../Outline/Outline';
 import { FlipDirection } from '../Flip/Flip';
+import { ImageDescriptor } from '../Page/ImagePage';
 
 type NumberArray = number[];
 
+/**
+ * Source of a page: HTML element in the HTML mode, image (path, resolutions or resolver) in the Canvas mode
+ */
+export type PageSource = HTMLElement | ImageDescriptor;
+
+/**
+ * Function returning the content of the page by its index
+ */
+export type PageProvider<T extends PageSource = PageSource> = (index: number) => T | Promise<T>;
+
+/**
+ * Pages displayed on each side of a spread. A side is null if the spread shows a single page
+ */
+export interface SpreadSides {
+    left: Page;
+    right: Page;
+}
+
 /**
  * Сlass representing a collection of pages
  */
@@ -12,6 +33,8 @@ export abstract class PageCollection {
     protected readonly app: PageFlip;
     protected readonly render: Render;
     protected readonly isShowCover: boolean;
+    protected readonly isRtl: boolean;
+    protected readonly isLoop: boolean;
 
     /** Pages List */
     protected pages: Page[] = [];
@@ -25,38 +48,42 @@ export abstract class PageCollection {
     /**  One-page spread in portrait mode */
     protected portraitSpread: NumberArray[] = [];
 
-    /** 가상화 로직을 위해 진수 추가 25.08.05 */
-    protected virtualPageIndex = 0; // 현재 가상 페이지 인덱스
-    protected virtualSpreadIndex = 0; // 현재 가상 스프레드 인덱스
-    protected virtualLandscapeSpread: NumberArray[] = [];
-    protected virtualPortraitSpread: NumberArray[] = [];
-    protected totalVirtualPages = 0; // 전체 가상 페이지 수
-    // /** 루프 존 관련 캐시 */
-    // protected loopZoneStart = 0;
-    // protected loopZoneEnd = 0;
-    // protected loopSpreadIndex = 0;
-
-    /** 루프 존 관련 캐시 - orientation별로 분리 */
-    protected portraitLoopZone = {
-        start: 0,
-        end: 0,
-        centerIndex: 0,
-    };
-    protected landscapeLoopZone = {
-        start: 0,
-        end: 0,
-        centerIndex: 0,
-    };
-
-    protected constructor(app: PageFlip, render: Render) {
+    /** Table of contents of the book */
+    protected outline: Outline = null;
+
+    /** Original density of the pages made hard by the spread splitting (covers) */
+    private forcedDensities = new Map<Page, PageDensity>();
+
+    /** Content provider of the lazy loaded pages. Null if all pages are loaded at once */
+    protected readonly provider: PageProvider;
+    /** Pages loaded from the provider */
+    private lazyPages = new Set<Page>();
+    /** Lazy pages with the requested content, by the request number */
+    private requestedPages = new Map<Page, number>();
+    private requestCounter = 0;
+    /** Pages with the loaded or failed content, for the loading progress */
+    private settledPages = new Set<Page>();
+
+    /** Number of the virtual pages shown by recycling the pages (slots). 0 if not used */
+    protected readonly totalVirtualPages: number;
+    /** Slots displaying the virtual pages, by the virtual page index */
+    private slotPages = new Map<number, Page>();
+    /** Index of the virtual page displayed by each slot */
+    private slotIndexes = new Map<Page, number>();
+    /** Indexes of the pages made hard by the spread splitting (covers) */
+    private hardPageIndexes: number[] = [];
+
+    protected constructor(app: PageFlip, render: Render, provider: PageProvider = null) {
         this.render = render;
         this.app = app;
+        this.provider = provider;
 
         this.currentPageIndex = 0;
-        this.virtualSpreadIndex = 0;
         this.isShowCover = this.app.getSettings().showCover;
+        this.isRtl = this.app.getSettings().direction === ReadingDirection.RTL;
+        this.isLoop = this.app.getSettings().loop;
 
-        this.totalVirtualPages = this.app.getSettings().totalVirtualPages;
+        this.totalVirtualPages = this.app.getSettings().totalVirtualPages || 0;
     }
 
     /**
@@ -64,56 +91,480 @@ export abstract class PageCollection {
      */
     public abstract load(): void;
 
+    /**
+     * Create a page not yet added to the collection
+     *
+     * @param {PageSource} source - HTML element or path to the image
+     */
+    public abstract createPage(source: PageSource): Page;
+
+    /**
+     * Fill the slot with the content of the virtual page
+     *
+     * @param {Page} page - Slot
+     * @param {number} virtualIndex - Index of the virtual page
+     */
+    protected abstract renderSlot(page: Page, virtualIndex: number): void;
+
+    /**
+     * Get the path to the content failed to load. Null if unknown
+     *
+     * @param {Page} page
+     */
+    protected abstract getErrorUrl(page: Page): string;
+
     /**
      * Clear pages list
      */
     public destroy(): void {
         this.pages = [];
+        this.lazyPages.clear();
+        this.requestedPages.clear();
+    }
+
+    /**
+     * Add a page with the content loaded from the provider when the page gets close to the current spread
+     *
+     * @param {Page} page - Empty page
+     */
+    protected addLazyPage(page: Page): void {
+        page.unload();
+
+        this.lazyPages.add(page);
+        this.pages.push(page);
+    }
+
+    /**
+     * Load the lazy pages around the current spread and unload the far away ones
+     */
+    private updateLoadedPages(): void {
+        if (this.provider === null) return;
+
+        const window = this.app.getSettings().lazyLoadWindow;
+        const spread = this.getSpread();
+        const neededPages = new Set<Page>();
+
+        const from = Math.max(this.currentSpreadIndex - window, 0);
+        const to = Math.min(this.currentSpreadIndex + window, spread.length - 1);
+
+        for (let i = from; i <= to; i++) {
+            for (const pageIndex of spread[i]) {
+                const page = this.getBookPage(pageIndex);
+                if (this.lazyPages.has(page)) neededPages.add(page);
+            }
+        }
+
+        this.requestedPages.forEach((request, page) => {
+            if (neededPages.has(page)) return;
+
+            this.requestedPages.delete(page);
+            page.unload();
+
+            const pageIndex = this.pages.indexOf(page);
+            if (pageIndex !== -1) this.app.updatePageUnload(pageIndex);
+        });
+
+        neededPages.forEach((page) => {
+            if (!this.requestedPages.has(page)) this.loadPage(page);
+        });
+    }
+
+    /**
+     * Request the page content from the provider
+     *
+     * @param {Page} page - Lazy page
+     */
+    private loadPage(page: Page): void {
+        const request = ++this.requestCounter;
+        this.requestedPages.set(page, request);
+
+        // The page could be unloaded while its content is loading
+        const isActual = (): boolean => this.requestedPages.get(page) === request;
+
+        new Promise<PageSource>((resolve) => resolve(this.provider(this.pages.indexOf(page))))
+            .then((content) => (isActual() ? page.setContent(content) : null))
+            .then(() => {
+                if (!isActual()) return;
+
+                this.app.updatePageLoad(this.pages.indexOf(page));
+                this.settlePage(page);
+            })
+            .catch(() => {
+                if (!isActual()) return;
+
+                // Try again the next time the page is close to the current spread
+                this.requestedPages.delete(page);
+
+                this.reportPageError(page);
+                this.settlePage(page);
+            });
+    }
+
+    /**
+     * Report the result of the page content loading: error and loading progress events
+     *
+     * @param {Page} page
+     * @param {Promise} loading - Content loading of the page
+     */
+    protected watchLoading(page: Page, loading: Promise<void>): void {
+        loading.then(
+            () => {
+                this.app.updatePageLoad(this.pages.indexOf(page));
+                this.settlePage(page);
+            },
+            () => {
+                this.reportPageError(page);
+                this.settlePage(page);
+            },
+        );
+    }
+
+    /**
+     * Call the page error event trigger
+     *
+     * @param {Page} page - Page failed to load
+     */
+    protected reportPageError(page: Page): void {
+        this.app.updatePageError(this.pages.indexOf(page), this.getErrorUrl(page));
+    }
+
+    /**
+     * Count the page as loaded (successfully or not) and call the loading progress event triggers
+     *
+     * @param {Page} page
+     */
+    private settlePage(page: Page): void {
+        if (this.settledPages.has(page)) return;
+
+        this.settledPages.add(page);
+
+        // Only the window around the current spread is requested from the provider
+        const requested = this.pages.filter(
+            (item) =>
+                !this.lazyPages.has(item) ||
+                this.requestedPages.has(item) ||
+                this.settledPages.has(item),
+        );
+        const loaded = requested.filter((item) => this.settledPages.has(item)).length;
+
+        this.app.updateLoadProgress(loaded, requested.length);
     }
 
     /**
-     * Split the book on the two-page spread in landscape mode and one-page spread in portrait mode
+     * Split the book on the two-page spread in landscape mode and one-page spread in portrait mode.
+     * Spreads are in the order of the screen: from the first to the last page in the left-to-right mode,
+     * from the last to the first one in the right-to-left mode. With virtual pages spreads contain the virtual page indexes
      */
     protected createSpread(): void {
+        if (this.totalVirtualPages && this.pages.length < 6)
+            throw new Error('Virtual pages need at least 6 pages (slots)');
+
         this.landscapeSpread = [];
         this.portraitSpread = [];
+        this.hardPageIndexes = [];
 
-        for (let i = 0; i < this.pages.length; i++) {
+        const pageCount = this.getVirtualPageCount();
+
+        for (let i = 0; i < pageCount; i++) {
             this.portraitSpread.push([i]); // In portrait mode - (one spread = one page)
         }
 
         let start = 0;
         if (this.isShowCover) {
-            this.pages[0].setDensity(PageDensity.HARD);
+            this.hardPageIndexes.push(0);
             this.landscapeSpread.push([start]);
             start++;
         }
 
-        for (let i = start; i < this.pages.length; i += 2) {
-            if (i < this.pages.length - 1) this.landscapeSpread.push([i, i + 1]);
+        for (let i = start; i < pageCount; i += 2) {
+            if (i < pageCount - 1) this.landscapeSpread.push([i, i + 1]);
             else {
                 this.landscapeSpread.push([i]);
-                this.pages[i].setDensity(PageDensity.HARD);
+                this.hardPageIndexes.push(i);
             }
         }
 
-        // 루프 존 계산 (스프레드 생성 후)
-        this.calculateLoopZone();
+        if (this.isRtl) {
+            this.portraitSpread.reverse();
+            this.landscapeSpread = this.landscapeSpread.reverse().map((spread) => spread.reverse());
+        }
+
+        if (this.totalVirtualPages) this.updateSlots();
+        else this.updateHardDensities();
     }
 
     /**
-     * Get spread by mode (portrait or landscape)
+     * Recompute the spreads from the first changed page. The spreads of the pages before it stay the same
+     *
+     * @param {number} from - Index of the first changed page
      */
-    protected getSpread(useVirtual: boolean = false): NumberArray[] {
-        if (useVirtual) {
-            return this.render.getOrientation() === Orientation.LANDSCAPE
-                ? this.virtualLandscapeSpread
-                : this.virtualPortraitSpread;
-        } else {
-            return this.render.getOrientation() === Orientation.LANDSCAPE
-                ? this.landscapeSpread
-                : this.portraitSpread;
+    private updateSpread(from: number): void {
+        const pageCount = this.pages.length;
+
+        const portrait = this.mirrorSpread(this.portraitSpread).slice(0, from);
+        for (let i = portrait.length; i < pageCount; i++) portrait.push([i]);
+
+        const landscape = this.mirrorSpread(this.landscapeSpread).filter(
+            (spread) => Math.max(...spread) < from,
+        );
+
+        let start = landscape.length > 0 ? Math.max(...landscape[landscape.length - 1]) + 1 : 0;
+        if (start === 0 && this.isShowCover) {
+            landscape.push([0]);
+            start++;
+        }
+
+        for (let i = start; i < pageCount; i += 2) {
+            if (i < pageCount - 1) landscape.push([i, i + 1]);
+            else landscape.push([i]);
+        }
+
+        this.hardPageIndexes = this.isShowCover ? [0] : [];
+
+        const last = landscape[landscape.length - 1];
+        if (last.length === 1 && !(this.isShowCover && last[0] === 0))
+            this.hardPageIndexes.push(last[0]);
+
+        this.portraitSpread = this.mirrorSpread(portrait);
+        this.landscapeSpread = this.mirrorSpread(landscape);
+
+        this.updateHardDensities();
+    }
+
+    /**
+     * Convert the spreads from the order of the screen to the reading order and back.
+     * The orders differ in the right-to-left mode only
+     *
+     * @param {NumberArray[]} spread
+     */
+    private mirrorSpread(spread: NumberArray[]): NumberArray[] {
+        const copy = spread.map((item) => [...item]);
+
+        return this.isRtl ? copy.reverse().map((item) => item.reverse()) : copy;
+    }
+
+    /**
+     * Make the covers hard. Pages that are not covers anymore get back their density
+     */
+    private updateHardDensities(): void {
+        this.forcedDensities.forEach((density, page) => page.setDensity(density));
+        this.forcedDensities.clear();
+
+        for (const index of this.hardPageIndexes) {
+            const page = this.getBookPage(index);
+            if (page === null) continue;
+
+            if (!this.forcedDensities.has(page)) this.forcedDensities.set(page, page.getDensity());
+            page.setDensity(PageDensity.HARD);
+        }
+    }
+
+    /**
+     * Assign the slots to the virtual pages around the current spread. Slots of the pages
+     * that left the window are given to the new ones and filled by renderSlot
+     */
+    private updateSlots(): void {
+        const spread = this.getSpread();
+
+        let from = this.currentSpreadIndex;
+        let to = this.currentSpreadIndex;
+        let pageCount = spread[from].length;
+
+        // Widen the window on both sides while there are enough slots
+        for (let isWidened = true; isWidened;) {
+            isWidened = false;
+
+            if (to < spread.length - 1 && pageCount + spread[to + 1].length <= this.pages.length) {
+                to++;
+                pageCount += spread[to].length;
+                isWidened = true;
+            }
+
+            if (from > 0 && pageCount + spread[from - 1].length <= this.pages.length) {
+                from--;
+                pageCount += spread[from].length;
+                isWidened = true;
+            }
+        }
+
+        const windowPages = new Set<number>();
+        for (let i = from; i <= to; i++) {
+            for (const index of spread[i]) windowPages.add(index);
+        }
+
+        this.slotPages.forEach((page, index) => {
+            if (windowPages.has(index)) return;
+
+            this.slotPages.delete(index);
+            this.slotIndexes.delete(page);
+        });
+
+        const freeSlots = this.pages.filter((page) => !this.slotIndexes.has(page));
+
+        windowPages.forEach((index) => {
+            if (this.slotPages.has(index)) return;
+
+            const page = freeSlots.shift();
+            page.hideTemporaryCopy();
+
+            this.slotPages.set(index, page);
+            this.slotIndexes.set(page, index);
+            this.renderSlot(page, index);
+        });
+
+        this.updateHardDensities();
+    }
+
+    /**
+     * Get the page displaying the book page. With virtual pages it is the slot assigned to the virtual page
+     *
+     * @param {number} index - Page index, virtual if virtual pages are used
+     *
+     * @returns {Page} Page or null if the virtual page has no slot now
+     */
+    protected getBookPage(index: number): Page {
+        if (this.totalVirtualPages) return this.slotPages.get(index) ?? null;
+
+        return this.pages[index];
+    }
+
+    /**
+     * Get the number of pages in the book. With virtual pages it is the number of the virtual pages
+     */
+    public getVirtualPageCount(): number {
+        return this.totalVirtualPages ? this.totalVirtualPages : this.pages.length;
+    }
+
+    /**
+     * Create the table of contents. Chapters declared in the settings take precedence over the ones read from the pages
+     */
+    protected createOutline(): void {
+        const chapters = this.app.getSettings().outline;
+
+        this.outline = new Outline(chapters.length > 0 ? chapters : this.getPageChapters());
+    }
+
+    /**
+     * Read the chapters from the pages
+     */
+    protected getPageChapters(): Chapter[] {
+        return [];
+    }
+
+    /**
+     * Insert pages into the book
+     *
+     * @param {number} index - Index of the first inserted page
+     * @param {Page[]} pages - New pages
+     */
+    public insertPages(index: number, pages: Page[]): void {
+        if (index < 0 || index > this.pages.length) throw new Error('Invalid page number');
+
+        this.changePages(index, () => this.pages.splice(index, 0, ...pages));
+    }
+
+    /**
+     * Remove pages from the book
+     *
+     * @param {number} index - Index of the first removed page
+     * @param {number} count - Number of removed pages
+     *
+     * @returns {Page[]} Removed pages
+     */
+    public removePages(index: number, count: number): Page[] {
+        if (index < 0 || count < 0 || index + count > this.pages.length)
+            throw new Error('Invalid page number');
+
+        if (count === this.pages.length) throw new Error('Book must have at least one page');
+
+        let removed: Page[] = [];
+        this.changePages(index, () => {
+            removed = this.pages.splice(index, count);
+        });
+
+        for (const page of removed) {
+            page.hideTemporaryCopy();
+            this.lazyPages.delete(page);
         }
+
+        return removed;
+    }
+
+    /**
+     * Replace the page
+     *
+     * @param {number} index - Page index
+     * @param {Page} page - New page
+     *
+     * @returns {Page} Replaced page
+     */
+    public replacePage(index: number, page: Page): Page {
+        const oldPage = this.getPage(index);
+
+        this.changePages(index, () => {
+            this.pages[index] = page;
+        });
+        oldPage.hideTemporaryCopy();
+        this.lazyPages.delete(oldPage);
+
+        return oldPage;
+    }
+
+    /**
+     * Move the page to a new position
+     *
+     * @param {number} from - Current page index
+     * @param {number} to - New page index
+     */
+    public movePage(from: number, to: number): void {
+        const page = this.getPage(from);
+        this.getPage(to);
+
+        this.changePages(Math.min(from, to), () => {
+            this.pages.splice(from, 1);
+            this.pages.splice(to, 0, page);
+        });
+    }
+
+    /**
+     * Apply the change of the pages list, update the spreads and stay on the same page
+     *
+     * @param {number} from - Index of the first changed page
+     * @param {Function} change - Function changing the pages list
+     */
+    private changePages(from: number, change: () => void): void {
+        if (this.totalVirtualPages)
+            throw new Error('Page list changes are not available with virtual pages');
+
+        const currentIndex = this.currentPageIndex;
+        const currentPage = this.pages[currentIndex];
+
+        // The last page can get a pair or lose it
+        const changedFrom = Math.min(from, this.pages.length - 1);
+
+        change();
+
+        this.updateSpread(changedFrom);
+        this.createOutline();
+
+        const newIndex = this.pages.indexOf(currentPage);
+        this.show(newIndex !== -1 ? newIndex : Math.min(currentIndex, this.pages.length - 1));
+    }
+
+    /**
+     * Get the table of contents of the book
+     */
+    public getOutline(): Outline {
+        return this.outline;
+    }
+
+    /**
+     * Get spread by mode (portrait or landscape)
+     */
+    protected getSpread(): NumberArray[] {
+        return this.render.getOrientation() === Orientation.LANDSCAPE
+            ? this.landscapeSpread
+            : this.portraitSpread;
     }
 
     /**
@@ -130,6 +581,58 @@ export abstract class PageCollection {
         return null;
     }
 
+    /**
+     * Get the number of spreads in the current orientation
+     */
+    public getSpreadCount(): number {
+        return this.getSpread().length;
+    }
+
+    /**
+     * Get the page indexes of a spread in the order of the screen
+     *
+     * @param {number} spreadIndex - Spread index in the current orientation
+     */
+    public getSpreadPages(spreadIndex: number): number[] {
+        return [...this.getSpread()[spreadIndex]];
+    }
+
+    /**
+     * Wrap the spread index around the book in the loop mode: the last spread is followed by the first one
+     *
+     * @param {number} spreadIndex - Spread index, can be out of the book
+     */
+    public wrapSpreadIndex(spreadIndex: number): number {
+        if (!this.isLoop) return spreadIndex;
+
+        const count = this.getSpread().length;
+
+        return ((spreadIndex % count) + count) % count;
+    }
+
+    /**
+     * Get the pages displayed on each side of a spread
+     *
+     * @param {number} spreadIndex - Spread index in the current orientation
+     */
+    public getSpreadSides(spreadIndex: number): SpreadSides {
+        const spread = this.getSpread()[spreadIndex];
+
+        if (spread.length === 2) {
+            return { left: this.getBookPage(spread[0]), right: this.getBookPage(spread[1]) };
+        }
+
+        // The single page of the last spread is on the left (back cover in ltr, front cover in rtl)
+        if (
+            this.render.getOrientation() === Orientation.LANDSCAPE &&
+            spreadIndex === this.getSpread().length - 1
+        ) {
+            return { left: this.getBookPage(spread[0]), right: null };
+        }
+
+        return { left: null, right: this.getBookPage(spread[0]) };
+    }
+
     /**
      * Get the total number of pages
      */
@@ -163,6 +666,12 @@ export abstract class PageCollection {
      * @param {Page} current
      */
     public nextBy(current: Page): Page {
+        if (this.totalVirtualPages) {
+            const index = this.slotIndexes.get(current);
+
+            return index !== undefined ? this.getBookPage(index + 1) : null;
+        }
+
         const idx = this.pages.indexOf(current);
 
         if (idx < this.pages.length - 1) return this.pages[idx + 1];
@@ -176,6 +685,12 @@ export abstract class PageCollection {
      * @param {Page} current
      */
     public prevBy(current: Page): Page {
+        if (this.totalVirtualPages) {
+            const index = this.slotIndexes.get(current);
+
+            return index !== undefined ? this.getBookPage(index - 1) : null;
+        }
+
         const idx = this.pages.indexOf(current);
 
         if (idx > 0) return this.pages[idx - 1];
@@ -193,19 +708,19 @@ export abstract class PageCollection {
 
         if (this.render.getOrientation() === Orientation.PORTRAIT) {
             return direction === FlipDirection.FORWARD
-                ? this.pages[current].newTemporaryCopy()
-                : this.pages[current - 1];
+                ? this.getBookPage(this.getSpread()[current][0]).newTemporaryCopy()
+                : this.getBookPage(this.getSpread()[this.wrapSpreadIndex(current - 1)][0]);
         } else {
             const spread =
                 direction === FlipDirection.FORWARD
-                    ? this.getSpread()[current + 1]
-                    : this.getSpread()[current - 1];
+                    ? this.getSpread()[this.wrapSpreadIndex(current + 1)]
+                    : this.getSpread()[this.wrapSpreadIndex(current - 1)];
 
-            if (spread.length === 1) return this.pages[spread[0]];
+            if (spread.length === 1) return this.getBookPage(spread[0]);
 
             return direction === FlipDirection.FORWARD
-                ? this.pages[spread[0]]
-                : this.pages[spread[1]];
+                ? this.getBookPage(spread[0])
+                : this.getBookPage(spread[1]);
         }
     }
 
@@ -218,20 +733,23 @@ export abstract class PageCollection {
         const current = this.currentSpreadIndex;
 
         if (this.render.getOrientation() === Orientation.PORTRAIT) {
-            return direction === FlipDirection.FORWARD
-                ? this.pages[current + 1]
-                : this.pages[current - 1];
+            const spread =
+                direction === FlipDirection.FORWARD
+                    ? this.getSpread()[this.wrapSpreadIndex(current + 1)]
+                    : this.getSpread()[this.wrapSpreadIndex(current - 1)];
+
+            return this.getBookPage(spread[0]);
         } else {
             const spread =
                 direction === FlipDirection.FORWARD
-                    ? this.getSpread()[current + 1]
-                    : this.getSpread()[current - 1];
+                    ? this.getSpread()[this.wrapSpreadIndex(current + 1)]
+                    : this.getSpread()[this.wrapSpreadIndex(current - 1)];
 
-            if (spread.length === 1) return this.pages[spread[0]];
+            if (spread.length === 1) return this.getBookPage(spread[0]);
 
             return direction === FlipDirection.FORWARD
-                ? this.pages[spread[1]]
-                : this.pages[spread[0]];
+                ? this.getBookPage(spread[1])
+                : this.getBookPage(spread[0]);
         }
     }
 
@@ -239,22 +757,11 @@ export abstract class PageCollection {
      * Show next spread
      */
     public showNext(): void {
-        if (this.totalVirtualPages) {
-            if (this.isInLoopZone('NEXT')) {
-                this.virtualSpreadIndex++;
-                this.showSpread();
-            } else {
-                if (this.virtualSpreadIndex < this.getSpread(true).length) {
-                    this.currentSpreadIndex++;
-                    this.virtualSpreadIndex++;
-                    this.showSpread();
-                }
-            }
-        } else {
-            if (this.currentSpreadIndex < this.getSpread().length) {
-                this.currentSpreadIndex++;
-                this.showSpread();
-            }
+        const next = this.wrapSpreadIndex(this.currentSpreadIndex + 1);
+
+        if (next < this.getSpread().length) {
+            this.currentSpreadIndex = next;
+            this.showSpread();
         }
     }
 
@@ -262,23 +769,11 @@ export abstract class PageCollection {
      * Show prev spread
      */
     public showPrev(): void {
-        if (this.totalVirtualPages) {
-            if (this.isInLoopZone('PREV')) {
-                this.virtualSpreadIndex--;
-                this.showSpread();
-            } else {
-                if (this.virtualSpreadIndex > 0) {
-                    this.currentSpreadIndex--;
-                    this.virtualSpreadIndex--;
-                    this.showSpread();
-                }
-            }
-        } else {
-            if (this.currentSpreadIndex > 0) {
-                this.currentSpreadIndex--;
+        const prev = this.wrapSpreadIndex(this.currentSpreadIndex - 1);
 
-                this.showSpread();
-            }
+        if (prev >= 0) {
+            this.currentSpreadIndex = prev;
+            this.showSpread();
         }
     }
 
@@ -296,11 +791,9 @@ export abstract class PageCollection {
     public show(pageNum: number = null): void {
         if (pageNum === null) pageNum = this.currentPageIndex;
 
-        if (pageNum < 0 || pageNum >= this.pages.length) return;
+        if (pageNum < 0 || pageNum >= this.getVirtualPageCount()) return;
 
-        const spreadIndex = this.totalVirtualPages
-            ? this.getVirtualSpreadIndexByPage(pageNum)
-            : this.getSpreadIndexByPage(pageNum);
+        const spreadIndex = this.getSpreadIndexByPage(pageNum);
 
         if (spreadIndex !== null) {
             this.currentSpreadIndex = spreadIndex;
@@ -323,171 +816,36 @@ export abstract class PageCollection {
     public setCurrentSpreadIndex(newIndex: number): void {
         if (newIndex >= 0 && newIndex < this.getSpread().length) {
             this.currentSpreadIndex = newIndex;
-        } else {
-            throw new Error('Invalid page');
-        }
-    }
 
-    /**
-     * Show current spread
-     */
-    private showSpread(): void {
-        const spread = this.getSpread()[this.currentSpreadIndex]; // 이부분은 무한루프 만들어야해서 가상화 인덱스 사용안함.
+            // Slots around the new spread are filled before the flipping from it
+            if (this.totalVirtualPages) {
+                this.updateSlots();
 
-        if (spread.length === 2) {
-            this.render.setLeftPage(this.pages[spread[0]]);
-            this.render.setRightPage(this.pages[spread[1]]);
-        } else {
-            if (this.render.getOrientation() === Orientation.LANDSCAPE) {
-                if (spread[0] === this.pages.length - 1) {
-                    this.render.setLeftPage(this.pages[spread[0]]);
-                    this.render.setRightPage(null);
-                } else {
-                    this.render.setLeftPage(null);
-                    this.render.setRightPage(this.pages[spread[0]]);
-                }
-            } else {
-                this.render.setLeftPage(null);
-                this.render.setRightPage(this.pages[spread[0]]);
+                const sides = this.getSpreadSides(newIndex);
+                this.render.setLeftPage(sides.left);
+                this.render.setRightPage(sides.right);
             }
-        }
-
-        this.currentPageIndex = spread[0];
-
-        if (this.totalVirtualPages) {
-            const virtualSpread = this.getSpread(true)[this.virtualSpreadIndex]; // 실제 보여주진 않지만 가상화 인덱스 계산을 위해
-            this.virtualPageIndex = virtualSpread[0]; // 가상화 사용시 활성화 될꺼임 아마
-            this.app.updatePageIndex(this.virtualPageIndex);
         } else {
-            this.app.updatePageIndex(this.currentPageIndex);
-        }
-    }
-
-    // Virtual Spread 배열 생성 최적화
-    private buildVirtualSpreads(): void {
-        if (!this.totalVirtualPages) return;
-
-        // Portrait: 더 효율적인 생성
-        this.virtualPortraitSpread = Array.from({ length: this.totalVirtualPages }, (_, i) => [i]);
-
-        // Landscape: 더 효율적인 생성
-        this.virtualLandscapeSpread = Array.from(
-            { length: Math.ceil(this.totalVirtualPages / 2) },
-            (_, i) => [i * 2, i * 2 + 1 < this.totalVirtualPages ? i * 2 + 1 : i * 2],
-        );
-    }
-
-    /** 루프 존 계산 및 캐싱 */
-    private calculateLoopZone(): void {
-        if (!this.totalVirtualPages) {
-            return;
-        }
-
-        this.buildVirtualSpreads();
-
-        this.portraitLoopZone.centerIndex = Math.floor(this.portraitSpread.length / 2);
-        this.portraitLoopZone.start = this.portraitLoopZone.centerIndex;
-        this.portraitLoopZone.end =
-            this.virtualPortraitSpread.length - this.portraitLoopZone.centerIndex;
-        this.landscapeLoopZone.centerIndex = Math.floor(this.landscapeSpread.length / 2);
-        this.landscapeLoopZone.start = this.landscapeLoopZone.centerIndex;
-        this.landscapeLoopZone.end =
-            this.virtualLandscapeSpread.length - this.landscapeLoopZone.centerIndex;
-
-        // }
-    }
-
-    /** 루프 존 체크 (최적화됨) */
-    public isInLoopZone(direction: 'NEXT' | 'PREV'): boolean {
-        if (!this.totalVirtualPages) return false;
-
-        let loopZoneStart = 0;
-        let loopZoneEnd = 0;
-
-        if (this.render.getOrientation() === Orientation.LANDSCAPE) {
-            loopZoneStart = this.landscapeLoopZone.start;
-            loopZoneEnd = this.landscapeLoopZone.end;
-        } else {
-            loopZoneStart = this.portraitLoopZone.start;
-            loopZoneEnd = this.portraitLoopZone.end;
-        }
-
-        if (direction === 'NEXT') {
-            return (
-                this.virtualSpreadIndex >= loopZoneStart && this.virtualSpreadIndex < loopZoneEnd
-            );
-        } else {
-            // PREV
-            return (
-                this.virtualSpreadIndex > loopZoneStart && this.virtualSpreadIndex <= loopZoneEnd
-            );
+            throw new Error('Invalid page');
         }
     }
 
     /**
-     * Get virtual spread index by page number (virtualSpreadIndex 설정 포함)
-     *
-     * @param {number} pageNum - 찾고자 하는 페이지 번호
+     * Show current spread
      */
-    public getVirtualSpreadIndexByPage(pageNum: number): number | null {
-        if (!this.totalVirtualPages) return null;
-
-        const spread = this.getSpread(); // 실제 스프레드
-        const isLandscape = this.render.getOrientation() === Orientation.LANDSCAPE;
-
-        const loopZoneStart = isLandscape
-            ? this.landscapeLoopZone.start
-            : this.portraitLoopZone.start;
-        const loopZoneEnd = isLandscape ? this.landscapeLoopZone.end : this.portraitLoopZone.end;
-
-        let resultVirtualSpreadIndex = null;
-
-        // 1단계: 루프 존 이전 영역 (실제 페이지와 1:1 매핑)
-        for (let i = 0; i < Math.min(loopZoneStart, spread.length); i++) {
-            if (pageNum === spread[i][0] || pageNum === spread[i][1]) {
-                resultVirtualSpreadIndex = i;
-                break;
-            }
-        }
-
-        // 2단계: 루프 존 영역 (가상 페이지 범위)
-        if (resultVirtualSpreadIndex === null) {
-            if (isLandscape) {
-                // Landscape: [[0,1], [2,3], [4,5]...]
-                const virtualSpreadIndex = Math.floor(pageNum / 2);
-                if (virtualSpreadIndex >= loopZoneStart && virtualSpreadIndex < loopZoneEnd) {
-                    resultVirtualSpreadIndex = virtualSpreadIndex;
-                }
-            } else {
-                // Portrait: [[0], [1], [2]...]
-                if (pageNum >= loopZoneStart && pageNum < loopZoneEnd) {
-                    resultVirtualSpreadIndex = pageNum;
-                }
-            }
-        }
+    private showSpread(): void {
+        const spread = this.getSpread()[this.currentSpreadIndex];
 
-        // 3단계: 루프 존 이후 영역 (실제 페이지와 역순 매핑)
-        if (resultVirtualSpreadIndex === null) {
-            const virtualSpreadLength = isLandscape
-                ? this.virtualLandscapeSpread.length
-                : this.virtualPortraitSpread.length;
+        if (this.totalVirtualPages) this.updateSlots();
 
-            for (let i = spread.length - 1; i >= loopZoneStart; i--) {
-                const reverseIndex = spread.length - 1 - i;
-                const targetVirtualIndex = virtualSpreadLength - 1 - reverseIndex;
+        const sides = this.getSpreadSides(this.currentSpreadIndex);
 
-                if (pageNum === spread[i][0] || pageNum === spread[i][1]) {
-                    resultVirtualSpreadIndex = targetVirtualIndex;
-                    break;
-                }
-            }
-        }
+        this.render.setLeftPage(sides.left);
+        this.render.setRightPage(sides.right);
 
-        // virtualSpreadIndex 설정
-        if (resultVirtualSpreadIndex !== null) {
-            this.virtualSpreadIndex = resultVirtualSpreadIndex;
-        }
+        this.currentPageIndex = Math.min(...spread);
+        this.app.updatePageIndex(this.currentPageIndex);
 
-        return resultVirtualSpreadIndex;
+        this.updateLoadedPages();
     }
 }
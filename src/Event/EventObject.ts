@@ -8,18 +8,30 @@ export type DataType = number | string | boolean | object;
 /**
  * Type of object in event handlers
  */
-export interface WidgetEvent {
-    data: DataType;
+export interface WidgetEvent<T = DataType> {
+    data: T;
     object: PageFlip;
 }
 
-type EventCallback = (e: WidgetEvent) => void;
+/**
+ * Event handler receiving the payload declared in the event map
+ */
+export type EventCallback<T = DataType> = (e: WidgetEvent<T>) => void;
+
+/**
+ * Function returned by the subscription methods. Removes the handler when called
+ */
+export type Unsubscribe = () => void;
 
 /**
  * A class implementing a basic event model
+ *
+ * @template EventMap - Map of event names to the type of data passed to their handlers
  */
-export abstract class EventObject {
-    private events = new Map<string, EventCallback[]>();
+export abstract class EventObject<EventMap extends object = Record<string, DataType>> {
+    private events = new Map<keyof EventMap, EventCallback<EventMap[keyof EventMap]>[]>();
+    /** Callbacks passed to once(), by their wrappers. Lets off() remove them */
+    private onceCallbacks = new WeakMap<EventCallback<never>, EventCallback<never>>();
 
     /**
      * Add new event handler
@@ -27,29 +39,86 @@ export abstract class EventObject {
      * @param {string} eventName
      * @param {EventCallback} callback
      */
-    public on(eventName: string, callback: EventCallback): EventObject {
+    public on<K extends keyof EventMap>(eventName: K, callback: EventCallback<EventMap[K]>): this {
+        const handler = callback as EventCallback<EventMap[keyof EventMap]>;
+
         if (!this.events.has(eventName)) {
-            this.events.set(eventName, [callback]);
+            this.events.set(eventName, [handler]);
         } else {
-            this.events.get(eventName).push(callback);
+            this.events.get(eventName).push(handler);
         }
 
         return this;
     }
 
     /**
-     * Removing all handlers from an event
+     * Add new event handler, like on(), and get the function removing it
+     *
+     * @param {string} eventName
+     * @param {EventCallback} callback
+     *
+     * @returns {Unsubscribe} Function removing this handler
+     */
+    public subscribe<K extends keyof EventMap>(
+        eventName: K,
+        callback: EventCallback<EventMap[K]>,
+    ): Unsubscribe {
+        this.on(eventName, callback);
+
+        return (): void => this.off(eventName, callback);
+    }
+
+    /**
+     * Add event handler that is removed after the first call. It can be removed before by off(event, callback)
+     *
+     * @param {string} eventName
+     * @param {EventCallback} callback
+     */
+    public once<K extends keyof EventMap>(
+        eventName: K,
+        callback: EventCallback<EventMap[K]>,
+    ): this {
+        const wrapper: EventCallback<EventMap[K]> = (e) => {
+            this.off(eventName, wrapper);
+            callback(e);
+        };
+        this.onceCallbacks.set(wrapper, callback);
+
+        return this.on(eventName, wrapper);
+    }
+
+    /**
+     * Remove a handler from an event. Without a handler, all handlers of the event are removed
      *
      * @param {string} event - Event name
+     * @param {EventCallback} callback - Handler to remove
      */
-    public off(event: string): void {
-        this.events.delete(event);
+    public off<K extends keyof EventMap>(event: K, callback?: EventCallback<EventMap[K]>): void {
+        if (callback === undefined) {
+            this.events.delete(event);
+            return;
+        }
+
+        const handlers = this.events.get(event);
+        if (handlers === undefined) return;
+
+        const index = handlers.findIndex(
+            (handler) => handler === callback || this.onceCallbacks.get(handler) === callback,
+        );
+        if (index !== -1) handlers.splice(index, 1);
+
+        if (handlers.length === 0) this.events.delete(event);
     }
 
-    protected trigger(eventName: string, app: PageFlip, data: DataType = null): void {
+    protected trigger<K extends keyof EventMap>(
+        eventName: K,
+        app: PageFlip,
+        data: EventMap[K] = null,
+    ): void {
         if (!this.events.has(eventName)) return;
 
-        for (const callback of this.events.get(eventName)) {
+        // Copy the list, handlers can unsubscribe while it is being iterated
+        for (const callback of [...this.events.get(eventName)]) {
             callback({ data, object: app });
         }
     }
@@ -1,9 +1,10 @@
-import { Orientation, Render } from '../Render/Render';
+import { Orientation, Render, RiffleSheet } from '../Render/Render';
 import { PageFlip } from '../PageFlip';
 import { Helper } from '../Helper';
 import { PageRect, Point } from '../BasicTypes';
 import { FlipCalculation } from './FlipCalculation';
 import { Page, PageDensity } from '../Page/Page';
+import { ReadingDirection } from '../Settings';
 
 /**
  * Flipping direction
@@ -38,6 +39,37 @@ export const enum FlippingState {
     READ = 'read',
 }
 
+/**
+ * Result status of the animated page turning
+ */
+export const enum FlipStatus {
+    /** The animation has played to the end */
+    COMPLETED = 'completed',
+
+    /** The turning was not started or was interrupted (finishAnimation, user drag) */
+    CANCELLED = 'cancelled',
+}
+
+/**
+ * Type passed to the promise returned by the animated page turning methods
+ */
+export interface FlipResult {
+    /** Result status of the turning */
+    status: FlipStatus;
+    /** Current page index after the turning */
+    page: number;
+}
+
+/**
+ * Turning request waiting for the end of the current animation
+ */
+type QueuedFlip = {
+    /** Starts the turning */
+    action: () => Promise<FlipResult>;
+    /** Resolve function of the promise returned to the caller */
+    resolve: (result: FlipResult) => void;
+};
+
 /**
  * Class representing the flipping process
  */
@@ -52,6 +84,14 @@ export class Flip {
 
     private state: FlippingState = FlippingState.READ;
 
+    /** Resolve function of the promise returned by the current animated turning */
+    private flipResolve: (result: FlipResult) => void = null;
+
+    /** Turning requests waiting to be played in order */
+    private flipQueue: QueuedFlip[] = [];
+    /** True while a turning from the queue is being started */
+    private isQueuedFlip = false;
+
     constructor(render: Render, app: PageFlip) {
         this.render = render;
         this.app = app;
@@ -63,6 +103,14 @@ export class Flip {
      * @param globalPos - Touch Point Coordinates (relative window)
      */
     public fold(globalPos: Point): void {
+        // The user took the page, the animated turning will not complete
+        this.settleFlip(FlipStatus.CANCELLED);
+        this.clearQueue();
+
+        // Riffle animation has no calculation object, finish it before folding
+        if (this.calc === null && this.state === FlippingState.FLIPPING)
+            this.render.finishAnimation();
+
         this.setState(FlippingState.USER_FOLD);
 
         // If the process has not started yet
@@ -75,14 +123,25 @@ export class Flip {
      * Page turning with animation
      *
      * @param globalPos - Touch Point Coordinates (relative window)
+     *
+     * @returns {Promise<FlipResult>} Resolved when the flipping animation ends
      */
-    public flip(globalPos: Point): void {
-        if (this.app.getSettings().disableFlipByClick && !this.isPointOnCorners(globalPos)) return;
+    public flip(globalPos: Point): Promise<FlipResult> {
+        if (this.app.getSettings().disableFlipByClick && !this.isPointOnCorners(globalPos))
+            return Promise.resolve(this.getResult(FlipStatus.CANCELLED));
+
+        if (this.isQueueActive()) return this.enqueue(() => this.flip(globalPos));
 
         // the flipiing process is already running
-        if (this.calc !== null) this.render.finishAnimation();
+        if (this.calc !== null || this.state === FlippingState.FLIPPING)
+            this.render.finishAnimation();
 
-        if (!this.start(globalPos)) return;
+        if (!this.start(globalPos)) return Promise.resolve(this.getResult(FlipStatus.CANCELLED));
+
+        this.settleFlip(FlipStatus.CANCELLED);
+        const result = new Promise<FlipResult>((resolve) => {
+            this.flipResolve = resolve;
+        });
 
         const rect = this.getBoundsRect();
 
@@ -106,6 +165,8 @@ export class Flip {
             { x: -rect.pageWidth, y: yDest },
             true,
         );
+
+        return result;
     }
 
     /**
@@ -135,7 +196,12 @@ export class Flip {
 
             // In landscape mode, needed to set the density  of the next page to the same as that of the flipped
             if (this.render.getOrientation() === Orientation.LANDSCAPE) {
-                if (direction === FlipDirection.BACK) {
+                // Pages are in the reverse order on the screen in the right-to-left mode
+                const isBack =
+                    (direction === FlipDirection.BACK) !==
+                    (this.app.getSettings().direction === ReadingDirection.RTL);
+
+                if (isBack) {
                     const nextPage = this.app.getPageCollection().nextBy(this.flippingPage);
 
                     if (nextPage !== null) {
@@ -216,32 +282,55 @@ export class Flip {
      *
      * @param {number} page - New page number
      * @param {FlipCorner} corner - Active page corner when turning
+     *
+     * @returns {Promise<FlipResult>} Resolved when the flipping animation ends
      */
-    public flipToPage(page: number, corner: FlipCorner): void {
+    public flipToPage(page: number, corner: FlipCorner): Promise<FlipResult> {
+        if (this.isQueueActive()) return this.enqueue(() => this.flipToPage(page, corner));
+
+        // The running turning or riffle shows its target page first, the new one starts from there
+        if (this.calc !== null || this.state === FlippingState.FLIPPING)
+            this.render.finishAnimation();
+
         const current = this.app.getPageCollection().getCurrentSpreadIndex();
         const next = this.app.getPageCollection().getSpreadIndexByPage(page);
 
+        if (next !== null && this.isRiffleNeeded(current, next))
+            return this.riffleToPage(page, current, next, corner);
+
+        const pages = this.app.getPageCollection();
+        const distance =
+            next !== null && this.app.getSettings().loop
+                ? this.getLoopDistance(current, next)
+                : next - current;
+
         try {
-            if (next > current) {
-                this.app.getPageCollection().setCurrentSpreadIndex(next - 1);
-                this.flipNext(corner);
+            if (distance > 0) {
+                pages.setCurrentSpreadIndex(pages.wrapSpreadIndex(next - 1));
+                return this.flipNext(corner);
             }
-            if (next < current) {
-                this.app.getPageCollection().setCurrentSpreadIndex(next + 1);
-                this.flipPrev(corner);
+            if (distance < 0) {
+                pages.setCurrentSpreadIndex(pages.wrapSpreadIndex(next + 1));
+                return this.flipPrev(corner);
             }
         } catch (e) {
-            //
+            return Promise.resolve(this.getResult(FlipStatus.CANCELLED));
         }
+
+        return Promise.resolve(
+            this.getResult(next === current ? FlipStatus.COMPLETED : FlipStatus.CANCELLED),
+        );
     }
 
     /**
      * Turn to the next page (with animation)
      *
      * @param {FlipCorner} corner - Active page corner when turning
+     *
+     * @returns {Promise<FlipResult>} Resolved when the flipping animation ends
      */
-    public flipNext(corner: FlipCorner): void {
-        this.flip({
+    public flipNext(corner: FlipCorner): Promise<FlipResult> {
+        return this.flip({
             x: this.render.getRect().left + this.render.getRect().pageWidth * 2 - 10,
             y: corner === FlipCorner.TOP ? 1 : this.render.getRect().height - 2,
         });
@@ -251,14 +340,36 @@ export class Flip {
      * Turn to the prev page (with animation)
      *
      * @param {FlipCorner} corner - Active page corner when turning
+     *
+     * @returns {Promise<FlipResult>} Resolved when the flipping animation ends
      */
-    public flipPrev(corner: FlipCorner): void {
-        this.flip({
+    public flipPrev(corner: FlipCorner): Promise<FlipResult> {
+        return this.flip({
             x: this.render.getRect().left + 10,
             y: corner === FlipCorner.TOP ? 1 : this.render.getRect().height - 2,
         });
     }
 
+    /**
+     * Unfold the page corner shown under the mouse pointer
+     */
+    public hideCorner(): void {
+        if (this.state !== FlippingState.FOLD_CORNER) return;
+
+        this.setState(FlippingState.READ);
+        this.render.finishAnimation();
+
+        this.stopMove();
+    }
+
+    /**
+     * Complete the current folding or flipping immediately
+     */
+    public finish(): void {
+        this.stopMove();
+        this.render.finishAnimation();
+    }
+
     /**
      * Called when the user has stopped flipping
      */
@@ -289,9 +400,10 @@ export class Flip {
             const bookPos = this.render.convertToBook(globalPos);
             const direction = this.getDirectionByPoint(bookPos);
 
-            // 현재 보이는 페이지들 확인
-            const currentPageIndex = this.app.getCurrentPageIndex();
-            const currentPage = this.app.getPage(currentPageIndex);
+            // 현재 보이는 페이지들 확인 (화면 기준 왼쪽 페이지)
+            const pages = this.app.getPageCollection();
+            const sides = pages.getSpreadSides(pages.getCurrentSpreadIndex());
+            const currentPage = sides.left ?? sides.right;
 
             // 현재 보이는 페이지가 hard이면 호버 비활성화
             if (currentPage && currentPage.getDensity() === PageDensity.HARD) {
@@ -382,31 +494,31 @@ export class Flip {
 
         const duration = this.getAnimationDuration(points.length);
 
-        if (isTurned && this.app.getOrientation() === Orientation.LANDSCAPE) {
-            if (this.calc.getDirection() === FlipDirection.BACK) {
-                if (this.app.getCurrentPageIndex() === 1) {
-                    this.app.getUI().firstPageCenter();
-                } else if (this.app.getCurrentPageIndex() === this.app.getPageCount() - 1) {
-                    this.app.getUI().firstPageCenterReverse();
-                }
-            } else {
-                if (this.app.getCurrentPageIndex() === 0) {
-                    this.app.getUI().firstPageCenterReverse();
-                } else if (this.app.getCurrentPageIndex() === this.app.getPageCount() - 3) {
-                    this.app.getUI().firstPageEndCenter();
-                }
-            }
+        if (isTurned) {
+            const current = this.app.getPageCollection().getCurrentSpreadIndex();
+
+            const pages = this.app.getPageCollection();
+
+            this.updateCenterPosition(
+                current,
+                pages.wrapSpreadIndex(
+                    this.calc.getDirection() === FlipDirection.BACK ? current - 1 : current + 1,
+                ),
+            );
         }
 
-        this.render.startAnimation(frames, duration, () => {
+        this.render.startAnimation(frames, duration, (isInterrupted) => {
             // 🎯 콜백에서는 중앙 정렬 제거, 페이지 전환만
-            if (!this.calc) return;
+            if (!this.calc) {
+                this.settleFlip(FlipStatus.CANCELLED);
+                return;
+            }
 
             if (isTurned) {
                 if (this.calc.getDirection() === FlipDirection.BACK) {
-                    this.app.turnToPrevPage();
+                    this.app.getPageCollection().showPrev();
                 } else {
-                    this.app.turnToNextPage();
+                    this.app.getPageCollection().showNext();
                 }
             }
 
@@ -417,8 +529,293 @@ export class Flip {
                 this.setState(FlippingState.READ);
                 this.reset();
             }
+
+            if (isTurned) this.finishTurning(isInterrupted);
+        });
+    }
+
+    /**
+     * Center the book on a single page spread (cover) in landscape mode
+     *
+     * @param {number} from - Spread index before turning
+     * @param {number} to - Spread index after turning
+     */
+    private updateCenterPosition(from: number, to: number): void {
+        if (this.app.getOrientation() !== Orientation.LANDSCAPE) return;
+
+        const pages = this.app.getPageCollection();
+        if (to < 0 || to >= pages.getSpreadCount()) return;
+
+        const target = pages.getSpreadSides(to);
+        const source = pages.getSpreadSides(from);
+
+        if (target.left === null) {
+            this.app.getUI().firstPageCenter();
+        } else if (target.right === null) {
+            this.app.getUI().firstPageEndCenter();
+        } else if (source.left === null || source.right === null) {
+            this.app.getUI().firstPageCenterReverse();
+        }
+    }
+
+    /**
+     * Resolve the turning promise and go to the next queued request
+     *
+     * @param {boolean} isInterrupted - True if the animation was finished before its last frame
+     */
+    private finishTurning(isInterrupted: boolean): void {
+        this.settleFlip(isInterrupted ? FlipStatus.CANCELLED : FlipStatus.COMPLETED);
+
+        if (isInterrupted) this.clearQueue();
+        else this.playQueue();
+    }
+
+    /**
+     * Get the shortest distance between two spreads around the loop
+     *
+     * @param {number} current - Current spread index
+     * @param {number} next - Target spread index
+     *
+     * @returns {number} Number of spreads, negative if turning back is shorter
+     */
+    private getLoopDistance(current: number, next: number): number {
+        const count = this.app.getPageCollection().getSpreadCount();
+        const forward = (next - current + count) % count;
+
+        return forward <= count / 2 ? forward : forward - count;
+    }
+
+    /**
+     * Check if the jump between two spreads is played as a riffle of the intermediate sheets
+     *
+     * @param {number} current - Current spread index
+     * @param {number} next - Target spread index
+     */
+    private isRiffleNeeded(current: number, next: number): boolean {
+        const setting = this.app.getSettings();
+
+        return (
+            setting.riffleFlip &&
+            !setting.totalVirtualPages &&
+            !setting.loop &&
+            this.render.getOrientation() === Orientation.LANDSCAPE &&
+            Math.abs(next - current) > 1
+        );
+    }
+
+    /**
+     * Turn to a distant page playing a fast riffle of the intermediate sheets
+     *
+     * @param {number} page - New page number
+     * @param {number} current - Current spread index
+     * @param {number} next - Target spread index
+     * @param {FlipCorner} corner - Active page corner when turning
+     *
+     * @returns {Promise<FlipResult>} Resolved when the riffle animation ends
+     */
+    private riffleToPage(
+        page: number,
+        current: number,
+        next: number,
+        corner: FlipCorner,
+    ): Promise<FlipResult> {
+        const setting = this.app.getSettings();
+        const pages = this.app.getPageCollection();
+
+        const direction = next > current ? FlipDirection.FORWARD : FlipDirection.BACK;
+        const step = direction === FlipDirection.FORWARD ? 1 : -1;
+
+        // Spreads between the current and the target one, evenly sampled
+        const between = Math.abs(next - current) - 1;
+        const count = Math.min(between, setting.riffleSheets);
+
+        const spreads = [current];
+        for (let i = 1; i <= count; i++) {
+            spreads.push(current + step * Math.round((i * (between + 1)) / (count + 1)));
+        }
+        spreads.push(next);
+
+        const sheets: RiffleSheet[] = [];
+        const calcs: FlipCalculation[] = [];
+
+        const rect = this.getBoundsRect();
+
+        for (let i = 1; i < spreads.length; i++) {
+            const sides = pages.getSpreadSides(spreads[i]);
+
+            sheets.push({
+                flippingPage: direction === FlipDirection.FORWARD ? sides.left : sides.right,
+                bottomPage: direction === FlipDirection.FORWARD ? sides.right : sides.left,
+                progress: 0,
+            });
+
+            calcs.push(
+                new FlipCalculation(
+                    direction,
+                    corner,
+                    rect.pageWidth.toString(10),
+                    rect.height.toString(10),
+                ),
+            );
+        }
+
+        this.settleFlip(FlipStatus.CANCELLED);
+        const result = new Promise<FlipResult>((resolve) => {
+            this.flipResolve = resolve;
+        });
+
+        this.setState(FlippingState.FLIPPING);
+
+        this.render.setDirection(direction);
+        this.render.setRiffleSheets(sheets);
+
+        this.updateCenterPosition(current, next);
+
+        // Next sheet starts before the previous one lands
+        const sheetTime = setting.riffleSheetTime * this.getSpeedFactor();
+        const startStep = sheetTime * (1 - setting.riffleOverlap);
+        const duration = startStep * (sheets.length - 1) + sheetTime;
+
+        const frameCount = Math.max(1, Math.ceil(duration / 16));
+
+        const frames = [];
+        for (let i = 0; i <= frameCount; i++) {
+            const time = (i / frameCount) * duration;
+            frames.push(() => this.doRiffle(sheets, calcs, time, startStep, sheetTime));
+        }
+
+        this.render.startAnimation(frames, duration, (isInterrupted) => {
+            this.render.setRiffleSheets([]);
+            this.app.getPageCollection().show(page);
+
+            this.setState(FlippingState.READ);
+
+            this.finishTurning(isInterrupted);
+        });
+
+        return result;
+    }
+
+    /**
+     * Perform calculations for all sheets of the riffle animation at the given time
+     *
+     * @param {RiffleSheet[]} sheets - Sheets in flipping order
+     * @param {FlipCalculation[]} calcs - Calculation object of each sheet
+     * @param {number} time - Time from the animation start
+     * @param {number} startStep - Delay between the starts of two sheets
+     * @param {number} sheetTime - Flipping time of one sheet
+     */
+    private doRiffle(
+        sheets: RiffleSheet[],
+        calcs: FlipCalculation[],
+        time: number,
+        startStep: number,
+        sheetTime: number,
+    ): void {
+        const rect = this.getBoundsRect();
+        const topMargins = rect.height / 10;
+
+        sheets.forEach((sheet, i) => {
+            const calc = calcs[i];
+
+            const progress = Math.min(Math.max((time - i * startStep) / sheetTime, 0), 1);
+            sheet.progress = progress;
+
+            if (progress <= 0 || progress >= 1) return;
+
+            // The same path as the flipping animation
+            const yStart =
+                calc.getCorner() === FlipCorner.BOTTOM ? rect.height - topMargins : topMargins;
+            const yDest = calc.getCorner() === FlipCorner.BOTTOM ? rect.height : 0;
+
+            const xStart = rect.pageWidth - topMargins;
+
+            const pos = {
+                x: xStart + (-rect.pageWidth - xStart) * progress,
+                y: yStart + (yDest - yStart) * progress,
+            };
+
+            if (!calc.calc(pos)) return;
+
+            if (sheet.bottomPage !== null) {
+                sheet.bottomPage.setArea(calc.getBottomClipArea());
+                sheet.bottomPage.setPosition(calc.getBottomPagePosition());
+                sheet.bottomPage.setAngle(0);
+            }
+
+            sheet.flippingPage.setArea(calc.getFlippingClipArea());
+            sheet.flippingPage.setPosition(calc.getActiveCorner());
+            sheet.flippingPage.setAngle(calc.getAngle());
+        });
+    }
+
+    /**
+     * Check if new turning requests must wait for the current animation
+     */
+    private isQueueActive(): boolean {
+        return this.app.getSettings().useFlipQueue && this.state === FlippingState.FLIPPING;
+    }
+
+    /**
+     * Add a turning request to the queue
+     *
+     * @param {Function} action - Starts the turning
+     *
+     * @returns {Promise<FlipResult>} Resolved when the queued turning ends
+     */
+    private enqueue(action: () => Promise<FlipResult>): Promise<FlipResult> {
+        if (this.flipQueue.length >= this.app.getSettings().flipQueueSize)
+            return Promise.resolve(this.getResult(FlipStatus.CANCELLED));
+
+        return new Promise<FlipResult>((resolve) => {
+            this.flipQueue.push({ action, resolve });
         });
     }
+
+    /**
+     * Start the next turning from the queue
+     */
+    private playQueue(): void {
+        const next = this.flipQueue.shift();
+        if (next === undefined) return;
+
+        this.isQueuedFlip = true;
+        const result = next.action();
+        this.isQueuedFlip = false;
+
+        void result.then(next.resolve);
+
+        // The turning was not started (end of the book), go to the next request
+        if (this.state !== FlippingState.FLIPPING) this.playQueue();
+    }
+
+    /**
+     * Cancel all turning requests waiting in the queue
+     */
+    private clearQueue(): void {
+        const queue = this.flipQueue;
+        this.flipQueue = [];
+
+        for (const item of queue) item.resolve(this.getResult(FlipStatus.CANCELLED));
+    }
+
+    /**
+     * Resolve the promise of the current animated turning
+     *
+     * @param {FlipStatus} status - Result status of the turning
+     */
+    private settleFlip(status: FlipStatus): void {
+        if (this.flipResolve === null) return;
+
+        const resolve = this.flipResolve;
+        this.flipResolve = null;
+
+        resolve(this.getResult(status));
+    }
+
+    private getResult(status: FlipStatus): FlipResult {
+        return { status, page: this.app.getCurrentPageIndex() };
+    }
     /**
      * Get the current calculations object
      */
@@ -454,8 +851,15 @@ export class Flip {
         return FlipDirection.FORWARD;
     }
 
+    /**
+     * Get the multiplier of the animation time: the turnings from the queue are played faster
+     */
+    private getSpeedFactor(): number {
+        return this.isQueuedFlip ? this.app.getSettings().flipQueueSpeedFactor : 1;
+    }
+
     private getAnimationDuration(size: number): number {
-        const defaultTime = this.app.getSettings().flippingTime;
+        const defaultTime = this.app.getSettings().flippingTime * this.getSpeedFactor();
 
         const rect = this.getBoundsRect();
         const ratio = rect.pageWidth / 300;
@@ -465,10 +869,14 @@ export class Flip {
     }
 
     private checkDirection(direction: FlipDirection): boolean {
+        const pages = this.app.getPageCollection();
+
+        if (this.app.getSettings().loop && pages.getSpreadCount() > 1) return true;
+
         if (direction === FlipDirection.FORWARD)
-            return this.app.getCurrentPageIndex() < this.app.getPageCount() - 1;
+            return pages.getCurrentSpreadIndex() < pages.getSpreadCount() - 1;
 
-        return this.app.getCurrentPageIndex() >= 1;
+        return pages.getCurrentSpreadIndex() >= 1;
     }
 
     private reset(): void {
@@ -0,0 +1,107 @@
+/**
+ * Chapter (section) of the book
+ */
+export interface Chapter {
+    /** Unique chapter identifier */
+    id: string;
+    /** Chapter title */
+    title: string;
+    /** Index of the first page of the chapter */
+    page: number;
+    /** Nested sections */
+    children?: Chapter[];
+}
+
+/**
+ * Class representing the table of contents of the book
+ */
+export class Outline {
+    private readonly chapters: Chapter[];
+
+    /** All chapters including the nested ones, sorted by the first page */
+    private readonly flatChapters: Chapter[] = [];
+
+    /**
+     * @constructor
+     *
+     * @param {Chapter[]} chapters - Chapter tree
+     */
+    constructor(chapters: Chapter[]) {
+        this.chapters = chapters;
+
+        this.flatten(chapters);
+        // Stable sort: a parent starting on the same page as its child comes first
+        this.flatChapters.sort((a, b) => a.page - b.page);
+    }
+
+    /**
+     * Read the chapters from the data-chapter and data-title attributes of the page elements
+     *
+     * @param {(NodeListOf<HTMLElement>|HTMLElement[])} items - List of pages as HTML Element
+     */
+    public static fromElements(items: NodeListOf<HTMLElement> | HTMLElement[]): Chapter[] {
+        const chapters: Chapter[] = [];
+
+        let page = 0;
+        for (const item of items) {
+            const id = item.dataset['chapter'];
+
+            if (id !== undefined) {
+                chapters.push({
+                    id,
+                    title: item.dataset['title'] ?? id,
+                    page,
+                });
+            }
+
+            page++;
+        }
+
+        return chapters;
+    }
+
+    /**
+     * Get the chapter tree
+     */
+    public getChapters(): Chapter[] {
+        return this.chapters;
+    }
+
+    /**
+     * Get chapter by id
+     *
+     * @param {string} id
+     *
+     * @returns {Chapter} Chapter or null if there is no such chapter
+     */
+    public getChapter(id: string): Chapter {
+        return this.flatChapters.find((chapter) => chapter.id === id) ?? null;
+    }
+
+    /**
+     * Get the innermost chapter containing the page
+     *
+     * @param {number} page - Page index
+     *
+     * @returns {Chapter} Chapter or null if the page is before the first chapter
+     */
+    public getChapterByPage(page: number): Chapter {
+        let result: Chapter = null;
+
+        for (const chapter of this.flatChapters) {
+            if (chapter.page > page) break;
+
+            result = chapter;
+        }
+
+        return result;
+    }
+
+    private flatten(chapters: Chapter[]): void {
+        for (const chapter of chapters) {
+            this.flatChapters.push(chapter);
+
+            if (chapter.children) this.flatten(chapter.children);
+        }
+    }
+}
@@ -3,6 +3,7 @@ import { Render, Orientation } from '../Render/Render';
 import { Helper } from '../Helper';
 import { FlipDirection } from '../Flip/Flip';
 import { Point } from '../BasicTypes';
+import { PageSource } from '../Collection/PageCollection';
 
 /**
  * Class representing a book page as a HTML Element
@@ -90,8 +91,10 @@ export class HTMLPage extends Page {
         const density = tempDensity ? tempDensity : this.nowDrawingDensity;
 
         const pagePos = this.render.convertToGlobal(this.state.position);
-        const pageWidth = this.render.getRect().pageWidth;
-        const pageHeight = this.render.getRect().height;
+        const size = this.render.toScreenAxes({
+            x: this.render.getRect().pageWidth,
+            y: this.render.getRect().height,
+        });
 
         this.element.classList.remove('--simple');
 
@@ -100,8 +103,8 @@ export class HTMLPage extends Page {
             z-index: ${this.element.style.zIndex};
             left: 0;
             top: 0;
-            width: ${pageWidth}px;
-            height: ${pageHeight}px;
+            width: ${size.x}px;
+            height: ${size.y}px;
         `;
 
         density === PageDensity.HARD
@@ -114,6 +117,14 @@ export class HTMLPage extends Page {
 
         const angle = this.state.hardDrawingAngle;
 
+        // Around the horizontal spine in the top binding mode
+        const rotate = this.render.isTopBinding()
+            ? `rotateX(${-angle}deg)`
+            : `rotateY(${angle}deg)`;
+
+        const origin = this.render.toScreenAxes({ x: this.render.getRect().pageWidth, y: 0 });
+        const translate = this.render.toScreenAxes({ x: pos, y: 0 });
+
         const newStyle =
             commonStyle +
             `
@@ -123,10 +134,10 @@ export class HTMLPage extends Page {
                 -webkit-clip-path: none;
             ` +
             (this.orientation === PageOrientation.LEFT
-                ? `transform-origin: ${this.render.getRect().pageWidth}px 0; 
-                   transform: translate3d(0, 0, 0) rotateY(${angle}deg);`
+                ? `transform-origin: ${origin.x}px ${origin.y}px; 
+                   transform: translate3d(0, 0, 0) ${rotate};`
                 : `transform-origin: 0 0; 
-                   transform: translate3d(${pos}px, 0, 0) rotateY(${angle}deg);`);
+                   transform: translate3d(${translate.x}px, ${translate.y}px, 0) ${rotate};`);
 
         this.element.style.cssText = newStyle;
     }
@@ -146,19 +157,25 @@ export class HTMLPage extends Page {
                               y: p.y - this.state.position.y,
                           };
 
-                g = Helper.GetRotatedPoint(g, { x: 0, y: 0 }, this.state.angle);
+                g = this.render.toScreenAxes(
+                    Helper.GetRotatedPoint(g, { x: 0, y: 0 }, this.state.angle),
+                );
                 polygon += g.x + 'px ' + g.y + 'px, ';
             }
         }
         polygon = polygon.slice(0, -2);
         polygon += ')';
 
+        // Swapping the axes mirrors the rotation
+        const pos = this.render.toScreenAxes(position);
+        const angle = this.render.isTopBinding() ? -this.state.angle : this.state.angle;
+
         const newStyle =
             commonStyle +
             `transform-origin: 0 0; clip-path: ${polygon}; -webkit-clip-path: ${polygon};` +
             (this.render.isSafari() && this.state.angle === 0
-                ? `transform: translate(${position.x}px, ${position.y}px);`
-                : `transform: translate3d(${position.x}px, ${position.y}px, 0) rotate(${this.state.angle}rad);`);
+                ? `transform: translate(${pos.x}px, ${pos.y}px);`
+                : `transform: translate3d(${pos.x}px, ${pos.y}px, 0) rotate(${angle}rad);`);
 
         this.element.style.cssText = newStyle;
     }
@@ -166,21 +183,21 @@ export class HTMLPage extends Page {
     public simpleDraw(orient: PageOrientation): void {
         const rect = this.render.getRect();
 
-        const pageWidth = rect.pageWidth;
-        const pageHeight = rect.height;
+        const size = this.render.toScreenAxes({ x: rect.pageWidth, y: rect.height });
 
-        const x = orient === PageOrientation.RIGHT ? rect.left + rect.pageWidth : rect.left;
-
-        const y = rect.top;
+        const pos = this.render.toScreenAxes({
+            x: orient === PageOrientation.RIGHT ? rect.left + rect.pageWidth : rect.left,
+            y: rect.top,
+        });
 
         this.element.classList.add('--simple');
         this.element.style.cssText = `
             position: absolute; 
             display: block; 
-            height: ${pageHeight}px; 
-            left: ${x}px; 
-            top: ${y}px; 
-            width: ${pageWidth}px; 
+            height: ${size.y}px; 
+            left: ${pos.x}px; 
+            top: ${pos.y}px; 
+            width: ${size.x}px; 
             z-index: ${this.render.getSettings().startZIndex + 1};`;
     }
 
@@ -192,6 +209,28 @@ export class HTMLPage extends Page {
         this.isLoad = true;
     }
 
+    public setContent(content: PageSource): Promise<void> {
+        if (!(content instanceof HTMLElement))
+            return Promise.reject(new Error('HTML element expected'));
+
+        this.element.innerHTML = '';
+        this.element.appendChild(content);
+        this.element.classList.remove('--loading');
+        this.isLoad = true;
+
+        return Promise.resolve();
+    }
+
+    public unload(): void {
+        this.element.innerHTML = '';
+        this.element.classList.add('--loading');
+        this.isLoad = false;
+
+        const placeholder = this.render.getSettings().placeholderRenderer;
+        if (placeholder instanceof HTMLTemplateElement)
+            this.element.appendChild(placeholder.content.cloneNode(true));
+    }
+
     public setOrientation(orientation: PageOrientation): void {
         super.setOrientation(orientation);
         this.element.classList.remove('--left', '--right');
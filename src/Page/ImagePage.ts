@@ -2,21 +2,76 @@ import { CanvasRender } from '../Render/CanvasRender';
 import { Page, PageDensity, PageOrientation } from './Page';
 import { Render } from '../Render/Render';
 import { Point } from '../BasicTypes';
+import { PageSource } from '../Collection/PageCollection';
+import { CanvasPlaceholderRenderer } from '../Settings';
+
+/**
+ * Image of the page in one resolution
+ */
+export interface ImageSource {
+    /** Path to the image */
+    src: string;
+    /** Image width (px) */
+    width: number;
+}
+
+/**
+ * Function returning the path to the image of the required width (device pixels)
+ */
+export type ImageResolver = (width: number) => string;
+
+/**
+ * Image of the page: path to the image, list of the resolutions or resolver
+ */
+export type ImageDescriptor = string | ImageSource[] | ImageResolver;
 
 /**
  * Class representing a book page as an image on Canvas
  */
 export class ImagePage extends Page {
-    private readonly image: HTMLImageElement = null;
+    /** Shown image */
+    private image: HTMLImageElement = null;
+    /** Requested image, replaces the shown one when loaded */
+    private loadingImage: HTMLImageElement = null;
     private isLoad = false;
+    /** Path to the image failed to load after all retries. Null if there is no error */
+    private failedSrc: string = null;
+
+    private source: ImageDescriptor = null;
+    /** Width of the shown resolution */
+    private sourceWidth = 0;
+    /** Resolution of the requested image. Null if nothing is loading */
+    private requestedSource: ImageSource = null;
+
+    /** Step of the widths passed to the resolver, limits the number of requests while the book grows */
+    private readonly resolverStep = 256;
 
     private loadingAngle = 0;
+    /** Time when the placeholder is shown first. Null if the image is loaded */
+    private placeholderShownAt: number = null;
 
-    constructor(render: Render, href: string, density: PageDensity) {
+    /**
+     * @constructor
+     *
+     * @param {Render} render
+     * @param {ImageDescriptor} source - Image of the page. Null if the image is set later by setContent
+     * @param {PageDensity} density
+     */
+    constructor(render: Render, source: ImageDescriptor, density: PageDensity) {
         super(render, density);
 
-        this.image = new Image();
-        this.image.src = href;
+        this.source = source;
+    }
+
+    /**
+     * Check if the content is an image descriptor
+     *
+     * @param {PageSource} content
+     */
+    public static isImageDescriptor(content: PageSource): content is ImageDescriptor {
+        return (
+            typeof content === 'string' || typeof content === 'function' || Array.isArray(content)
+        );
     }
 
     public draw(tempDensity?: PageDensity): void {
@@ -41,12 +96,43 @@ export class ImagePage extends Page {
 
         ctx.clip();
 
-        if (!this.isLoad) {
-            this.drawLoader(ctx, { x: 0, y: 0 }, pageWidth, pageHeight);
+        if (this.isLoad) {
+            this.drawImage(ctx, { x: 0, y: 0 }, pageWidth, pageHeight);
+        } else if (this.failedSrc !== null) {
+            this.drawError(ctx, { x: 0, y: 0 }, pageWidth, pageHeight);
         } else {
-            ctx.drawImage(this.image, 0, 0, pageWidth, pageHeight);
+            this.drawLoader(ctx, { x: 0, y: 0 }, pageWidth, pageHeight);
+        }
+
+        ctx.restore();
+    }
+
+    /**
+     * Draw the image in the page area. In the top binding mode the canvas axes are swapped,
+     * so the image is swapped back to be upright
+     */
+    private drawImage(
+        ctx: CanvasRenderingContext2D,
+        pos: Point,
+        pageWidth: number,
+        pageHeight: number
+    ): void {
+        const paperColor = this.render.getSettings().paperColor;
+
+        if (paperColor !== null) {
+            ctx.fillStyle = paperColor;
+            ctx.fillRect(pos.x, pos.y, pageWidth, pageHeight);
+        }
+
+        if (!this.render.isTopBinding()) {
+            ctx.drawImage(this.image, pos.x, pos.y, pageWidth, pageHeight);
+            return;
         }
 
+        ctx.save();
+        ctx.translate(pos.x, pos.y);
+        ctx.transform(0, 1, 1, 0, 0, 0);
+        ctx.drawImage(this.image, 0, 0, pageHeight, pageWidth);
         ctx.restore();
     }
 
@@ -61,19 +147,61 @@ export class ImagePage extends Page {
 
         const y = rect.top;
 
-        if (!this.isLoad) {
-            this.drawLoader(ctx, { x, y }, pageWidth, pageHeight);
+        if (this.isLoad) {
+            this.drawImage(ctx, { x, y }, pageWidth, pageHeight);
+        } else if (this.failedSrc !== null) {
+            this.drawError(ctx, { x, y }, pageWidth, pageHeight);
         } else {
-            ctx.drawImage(this.image, x, y, pageWidth, pageHeight);
+            this.drawLoader(ctx, { x, y }, pageWidth, pageHeight);
         }
     }
 
+    /**
+     * Draw the error placeholder: the page with a cross in the middle
+     */
+    private drawError(
+        ctx: CanvasRenderingContext2D,
+        shiftPos: Point,
+        pageWidth: number,
+        pageHeight: number
+    ): void {
+        ctx.beginPath();
+        ctx.strokeStyle = 'rgb(200, 200, 200)';
+        ctx.fillStyle = 'rgb(245, 245, 245)';
+        ctx.lineWidth = 1;
+        ctx.rect(shiftPos.x + 1, shiftPos.y + 1, pageWidth - 1, pageHeight - 1);
+        ctx.stroke();
+        ctx.fill();
+
+        const middlePoint: Point = {
+            x: shiftPos.x + pageWidth / 2,
+            y: shiftPos.y + pageHeight / 2,
+        };
+        const size = 15;
+
+        ctx.beginPath();
+        ctx.lineWidth = 4;
+        ctx.moveTo(middlePoint.x - size, middlePoint.y - size);
+        ctx.lineTo(middlePoint.x + size, middlePoint.y + size);
+        ctx.moveTo(middlePoint.x + size, middlePoint.y - size);
+        ctx.lineTo(middlePoint.x - size, middlePoint.y + size);
+        ctx.stroke();
+        ctx.closePath();
+    }
+
     private drawLoader(
         ctx: CanvasRenderingContext2D,
         shiftPos: Point,
         pageWidth: number,
         pageHeight: number
     ): void {
+        const renderer = this.render.getSettings().placeholderRenderer;
+
+        if (typeof renderer === 'function') {
+            this.drawPlaceholder(renderer, ctx, shiftPos, pageWidth, pageHeight);
+            return;
+        }
+
         ctx.beginPath();
         ctx.strokeStyle = 'rgb(200, 200, 200)';
         ctx.fillStyle = 'rgb(255, 255, 255)';
@@ -105,11 +233,206 @@ export class ImagePage extends Page {
         }
     }
 
+    /**
+     * Draw the placeholder with the user renderer. The page is swapped back to be upright in the top binding mode
+     */
+    private drawPlaceholder(
+        renderer: CanvasPlaceholderRenderer,
+        ctx: CanvasRenderingContext2D,
+        pos: Point,
+        pageWidth: number,
+        pageHeight: number
+    ): void {
+        const now = Date.now();
+        if (this.placeholderShownAt === null) this.placeholderShownAt = now;
+
+        const isTopBinding = this.render.isTopBinding();
+
+        ctx.save();
+        ctx.translate(pos.x, pos.y);
+        if (isTopBinding) ctx.transform(0, 1, 1, 0, 0, 0);
+
+        renderer(
+            ctx,
+            {
+                x: 0,
+                y: 0,
+                width: isTopBinding ? pageHeight : pageWidth,
+                height: isTopBinding ? pageWidth : pageHeight,
+            },
+            now - this.placeholderShownAt
+        );
+
+        ctx.restore();
+    }
+
     public load(): void {
-        if (!this.isLoad)
-            this.image.onload = (): void => {
-                this.isLoad = true;
+        if (!this.isLoad) void this.updateResolution().catch(() => undefined);
+    }
+
+    public setContent(content: PageSource): Promise<void> {
+        if (!ImagePage.isImageDescriptor(content))
+            return Promise.reject(new Error('Image descriptor expected'));
+
+        this.source = content;
+        this.sourceWidth = 0;
+        this.requestedSource = null;
+        this.image = null;
+        this.isLoad = false;
+        this.failedSrc = null;
+
+        return this.updateResolution();
+    }
+
+    /**
+     * Load a better resolution if the page is shown larger than the current one (the book grows or zooms).
+     * The current image is shown until the new one is loaded, a failed resolution is requested again on the next update
+     */
+    public updateResolution(): Promise<void> {
+        if (this.source === null) return Promise.resolve();
+
+        const candidate = this.selectSource((this.render as CanvasRender).getRequiredImageWidth());
+        const requestedWidth = this.requestedSource !== null ? this.requestedSource.width : 0;
+        if (candidate.width <= Math.max(this.sourceWidth, requestedWidth)) return Promise.resolve();
+
+        // The smaller image still loading is replaced, it is loaded again if the larger one fails
+        const fallback = this.isLoad ? null : this.requestedSource;
+
+        return this.loadImage(candidate, fallback);
+    }
+
+    /**
+     * Select the smallest resolution covering the width, the largest one if none does
+     *
+     * @param {number} width - Required width (device pixels)
+     */
+    private selectSource(width: number): ImageSource {
+        const source = this.source;
+
+        // A single image is never replaced
+        if (typeof source === 'string') return { src: source, width: Infinity };
+
+        if (typeof source === 'function') {
+            const step = Math.max(Math.ceil(width / this.resolverStep), 1) * this.resolverStep;
+
+            return { src: source(step), width: step };
+        }
+
+        const sorted = [...source].sort((a, b) => a.width - b.width);
+
+        return sorted.find((item) => item.width >= width) ?? sorted[sorted.length - 1];
+    }
+
+    /**
+     * Load the image, retry with the growing delay if it fails
+     *
+     * @param {ImageSource} source - Requested resolution
+     * @param {ImageSource} fallback - Resolution loaded if the requested one fails. Null if there is none
+     * @param {number} attempt - Number of the failed attempts
+     */
+    private loadImage(
+        source: ImageSource,
+        fallback: ImageSource = null,
+        attempt = 0
+    ): Promise<void> {
+        const src = source.src;
+        const image = new Image();
+        this.loadingImage = image;
+        this.requestedSource = source;
+
+        return new Promise<void>((resolve, reject) => {
+            image.onload = (): void => {
+                // The page could be unloaded or get another image while loading
+                if (this.loadingImage === image) {
+                    this.image = image;
+                    this.loadingImage = null;
+                    this.requestedSource = null;
+                    this.sourceWidth = source.width;
+                    this.isLoad = true;
+                    this.failedSrc = null;
+                    this.placeholderShownAt = null;
+                }
+
+                resolve();
             };
+            image.onerror = (): void => reject(new Error('Image loading error: ' + src));
+
+            image.src = src;
+        }).catch((error) => {
+            if (this.loadingImage !== image) return;
+
+            const setting = this.render.getSettings();
+
+            if (attempt >= setting.imageRetryCount) {
+                this.requestedSource = null;
+                if (fallback !== null) return this.loadImage(fallback);
+
+                this.showError(src);
+                throw error;
+            }
+
+            return new Promise<void>((resolve) =>
+                setTimeout(resolve, setting.imageRetryDelay * 2 ** attempt)
+            ).then(() =>
+                this.loadingImage === image ? this.loadImage(source, fallback, attempt + 1) : null
+            );
+        });
+    }
+
+    /**
+     * Show the fallback image or the error placeholder. The loaded image of another resolution is kept
+     *
+     * @param {string} src - Path to the failed image
+     */
+    private showError(src: string): void {
+        this.failedSrc = src;
+        this.loadingImage = null;
+
+        const fallback = this.render.getSettings().fallbackImage;
+        if (fallback === null || this.isLoad) return;
+
+        const image = new Image();
+        this.loadingImage = image;
+
+        image.onload = (): void => {
+            if (this.loadingImage !== image) return;
+
+            this.image = image;
+            this.loadingImage = null;
+            this.isLoad = true;
+        };
+
+        image.src = fallback;
+    }
+
+    /**
+     * Get the path to the image failed to load after all retries
+     *
+     * @returns {string} Path or null if there is no error
+     */
+    public getFailedSrc(): string {
+        return this.failedSrc;
+    }
+
+    /**
+     * Get the path to the loaded image
+     *
+     * @returns {string} Path or null if the image is not loaded
+     */
+    public getImageSrc(): string {
+        return this.isLoad ? this.image.src : null;
+    }
+
+    public unload(): void {
+        this.image = null;
+        this.loadingImage = null;
+        this.isLoad = false;
+        this.failedSrc = null;
+        this.placeholderShownAt = null;
+
+        this.source = null;
+        this.sourceWidth = 0;
+        this.requestedSource = null;
     }
 
     public newTemporaryCopy(): Page {
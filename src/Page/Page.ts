@@ -1,5 +1,6 @@
 import { Render } from '../Render/Render';
 import { Point } from '../BasicTypes';
+import { PageSource } from '../Collection/PageCollection';
 
 /**
  * State of the page on the basis of which rendering
@@ -85,6 +86,20 @@ export abstract class Page {
      */
     public abstract load(): void;
 
+    /**
+     * Fill the page with the content received from a provider
+     *
+     * @param {PageSource} content - HTML element or path to the image
+     *
+     * @returns {Promise<void>} Resolved when the content is ready to be shown
+     */
+    public abstract setContent(content: PageSource): Promise<void>;
+
+    /**
+     * Release the page content. A placeholder is shown until the next loading
+     */
+    public abstract unload(): void;
+
     /**
      * Set a constant page density
      *
@@ -1,27 +1,99 @@
-import { PageCollection } from './Collection/PageCollection';
+import { PageCollection, PageProvider, PageSource } from './Collection/PageCollection';
 import { ImagePageCollection } from './Collection/ImagePageCollection';
 import { HTMLPageCollection } from './Collection/HTMLPageCollection';
 import { PageRect, Point } from './BasicTypes';
-import { Flip, FlipCorner, FlippingState } from './Flip/Flip';
+import { Flip, FlipCorner, FlippingState, FlipResult, FlipStatus } from './Flip/Flip';
 import { Orientation, Render } from './Render/Render';
 import { CanvasRender } from './Render/CanvasRender';
 import { HTMLUI } from './UI/HTMLUI';
 import { CanvasUI } from './UI/CanvasUI';
 import { Helper } from './Helper';
 import { Page } from './Page/Page';
+import { HTMLPage } from './Page/HTMLPage';
 import { EventObject } from './Event/EventObject';
 import { HTMLRender } from './Render/HTMLRender';
-import { FlipSetting, Settings, SizeType } from './Settings';
+import { FlipSetting, ReadingDirection, Settings, SizeType } from './Settings';
 import { UI } from './UI/UI';
+import { Chapter } from './Outline/Outline';
+import { ReadingStorage } from './Storage/ReadingStorage';
+import { HistoryRouter } from './Router/HistoryRouter';
+import { Navigator } from './UI/Navigator';
+import { ImageDescriptor } from './Page/ImagePage';
 
 import './Style/stPageFlip.css';
 
+/**
+ * Data passed to the handlers of the book loading and updating events
+ */
+export interface BookStateData {
+    /** Current page index */
+    page: number;
+    /** Current book orientation */
+    mode: Orientation;
+}
+
+/**
+ * Data passed to the handlers of the page error event
+ */
+export interface PageErrorData {
+    /** Page index */
+    page: number;
+    /** Path to the content failed to load. Null if unknown */
+    url: string;
+}
+
+/**
+ * Data passed to the handlers of the loading progress event
+ */
+export interface LoadProgressData {
+    /** Number of the loaded (or failed) pages */
+    loaded: number;
+    /** Number of all pages */
+    total: number;
+}
+
+/**
+ * Map of the PageFlip event names to the type of data passed to their handlers
+ */
+export interface PageFlipEventMap {
+    /** Triggered by page turning. Data: new page index */
+    flip: number;
+    /** Triggered when the state of the book changes */
+    changeState: FlippingState;
+    /** Triggered when page orientation changes */
+    changeOrientation: Orientation;
+    /** Triggered when the book is init and the start page is loaded */
+    init: BookStateData;
+    /** Triggered when the book pages are updated (using the "updateFrom..." methods or the page list changes) */
+    update: BookStateData;
+    /** Triggered when the UI is rebuilt (using the "updateFromUI" method) */
+    uiUpdate: BookStateData;
+    /** Triggered when the book is resized. Data: new book sizes and position */
+    resize: PageRect;
+    /** Triggered when the zoom level changes. Data: new zoom level */
+    zoom: number;
+    /** Triggered when the current page moves to another chapter. Data: new chapter or null before the first one */
+    chapterChange: Chapter;
+    /** Triggered when the content of a page is loaded (image or lazy page loaded from the provider). Data: page index */
+    pageLoad: number;
+    /** Triggered when the content of a far away lazy page is released. Data: page index */
+    pageUnload: number;
+    /** Triggered when the content of a page failed to load after all retries */
+    pageError: PageErrorData;
+    /** Triggered when the content of a page is loaded or failed to load */
+    loadProgress: LoadProgressData;
+    /** Triggered when the content of all requested pages is loaded (or failed to load). Data: number of pages */
+    pagesLoaded: number;
+    /** Triggered when the book enters or leaves fullscreen. Data: true if the book is in fullscreen */
+    fullscreenChange: boolean;
+}
+
 /**
  * Class representing a main PageFlip object
  *
  * @extends EventObject
  */
-export class PageFlip extends EventObject {
+export class PageFlip extends EventObject<PageFlipEventMap> {
     private mousePosition: Point;
     private isUserTouch = false;
     private isUserMove = false;
@@ -35,6 +107,29 @@ export class PageFlip extends EventObject {
 
     private ui: UI;
 
+    /** Chapter of the current page */
+    private currentChapter: Chapter = null;
+
+    /** Saved reading state. Null if the book has no bookId */
+    private storage: ReadingStorage = null;
+
+    /** Synchronization of the current page with the url. Null if syncUrl is disabled */
+    private router: HistoryRouter = null;
+    /** Page of the opened url (deep link), read before the book writes to the url. Null if there is none */
+    private readonly urlPage: number = null;
+
+    /** Thumbnails of the spreads. Null if showNavigator is disabled */
+    private navigator: Navigator = null;
+
+    /** The start page is shown: the current page is saved and written to the url from now on */
+    private isStarted = false;
+
+    /** Changes of the page list requested while the book is flipping */
+    private pendingPageChanges: (() => void)[] = [];
+
+    /** Number of pages after the delayed changes of the page list */
+    private pendingPageCount = 0;
+
     /**
      * Create a new PageFlip instance
      *
@@ -47,12 +142,22 @@ export class PageFlip extends EventObject {
 
         this.setting = new Settings().getSettings(setting);
         this.block = inBlock;
+
+        if (this.setting.bookId !== null) this.storage = new ReadingStorage(this, this.setting);
+        if (this.setting.syncUrl) {
+            this.router = new HistoryRouter(this);
+            this.urlPage = this.router.getPage();
+        }
+        if (this.setting.showNavigator) this.navigator = new Navigator(this.block, this);
     }
 
     /**
      * Destructor. Remove a root HTML element and all event handlers
      */
     public destroy(): void {
+        if (this.router !== null) this.router.detach();
+        if (this.navigator !== null) this.navigator.destroy();
+
         this.ui.destroy();
         this.block.remove();
     }
@@ -68,9 +173,26 @@ export class PageFlip extends EventObject {
     /**
      * Load pages from images on the Canvas mode
      *
-     * @param {string[]} imagesHref - List of paths to images
+     * @param {ImageDescriptor[]} images - List of images: paths, lists of the resolutions or resolvers
+     */
+    public loadFromImages(images: ImageDescriptor[]): void {
+        this.initCanvasBook(images, null);
+    }
+
+    /**
+     * Load pages from images on the Canvas mode. Only the images around the current spread are loaded
+     *
+     * @param {number} pageCount - Number of pages
+     * @param {PageProvider<ImageDescriptor>} provider - Function returning the image of the page
      */
-    public loadFromImages(imagesHref: string[]): void {
+    public loadFromImageProvider(pageCount: number, provider: PageProvider<ImageDescriptor>): void {
+        this.initCanvasBook(new Array<ImageDescriptor>(pageCount).fill(null), provider);
+    }
+
+    private initCanvasBook(
+        images: ImageDescriptor[],
+        provider: PageProvider<ImageDescriptor>,
+    ): void {
         this.ui = new CanvasUI(this.block, this, this.setting);
 
         const canvas = (this.ui as CanvasUI).getCanvas();
@@ -78,21 +200,21 @@ export class PageFlip extends EventObject {
 
         this.flipController = new Flip(this.render, this);
 
-        this.pages = new ImagePageCollection(this, this.render, imagesHref);
+        this.pages = new ImagePageCollection(this, this.render, images, provider);
         this.pages.load();
 
         this.render.start();
 
-        this.pages.show(this.setting.startPage);
-
-        // safari fix
-        setTimeout(() => {
-            this.ui.update();
-            this.trigger('init', this, {
-                page: this.setting.startPage,
-                mode: this.render.getOrientation(),
-            });
-        }, 1);
+        this.showStartPage(() => {
+            // safari fix
+            setTimeout(() => {
+                this.ui.update();
+                this.trigger('init', this, {
+                    page: this.getCurrentPageIndex(),
+                    mode: this.render.getOrientation(),
+                });
+            }, 1);
+        });
     }
 
     /**
@@ -101,48 +223,119 @@ export class PageFlip extends EventObject {
      * @param {(NodeListOf<HTMLElement>|HTMLElement[])} items - List of pages as HTML Element
      */
     public loadFromHTML(items: NodeListOf<HTMLElement> | HTMLElement[]): void {
+        this.initHTMLBook(items, null);
+    }
+
+    /**
+     * Load pages from HTML elements on the HTML mode. Only the pages around the current spread are created
+     *
+     * @param {number} pageCount - Number of pages
+     * @param {PageProvider<HTMLElement>} provider - Function returning the content of the page
+     */
+    public loadFromHTMLProvider(pageCount: number, provider: PageProvider<HTMLElement>): void {
+        const items = Array.from({ length: pageCount }, () => document.createElement('div'));
+
+        this.initHTMLBook(items, provider);
+    }
+
+    private initHTMLBook(
+        items: NodeListOf<HTMLElement> | HTMLElement[],
+        provider: PageProvider<HTMLElement>,
+    ): void {
         this.ui = new HTMLUI(this.block, this, this.setting, items);
 
         this.render = new HTMLRender(this, this.setting, this.ui.getDistElement());
 
         this.flipController = new Flip(this.render, this);
 
-        this.pages = new HTMLPageCollection(this, this.render, this.ui.getDistElement(), items);
+        this.pages = new HTMLPageCollection(
+            this,
+            this.render,
+            this.ui.getDistElement(),
+            items,
+            provider,
+        );
         this.pages.load();
 
         this.render.start();
 
-        this.pages.show(this.setting.startPage);
+        this.showStartPage(() => {
+            // safari fix
+            setTimeout(() => {
+                this.ui.update();
+
+                // 🎯 커버 페이지일 때만 애니메이션 없이 중앙에서 시작
+                if (this.render.getOrientation() === Orientation.LANDSCAPE) {
+                    const sides = this.pages.getSpreadSides(this.pages.getCurrentSpreadIndex());
+
+                    if (sides.left === null) (this.ui as HTMLUI).setInitialCenterPosition();
+                    else if (sides.right === null)
+                        (this.ui as HTMLUI).setInitialCenterPosition(true);
+                }
+
+                this.trigger('init', this, {
+                    page: this.getCurrentPageIndex(),
+                    mode: this.render.getOrientation(),
+                });
+            }, 1);
+        });
+    }
 
-        // safari fix
-        setTimeout(() => {
-            this.ui.update();
+    /**
+     * Show the start page: the saved one if the reading state is persisted (bookId)
+     *
+     * @param {Function} onShow - Called when the start page is shown
+     */
+    private showStartPage(onShow: () => void): void {
+        // The page of the url (deep link) takes precedence over the saved one
+        const urlPage =
+            this.urlPage !== null ? Math.min(this.urlPage, this.getVirtualPageCount() - 1) : null;
+
+        if (this.router !== null) this.router.attach();
 
-            // 🎯 첫 페이지일 때만 애니메이션 없이 중앙에서 시작
-            if (
-                this.render.getOrientation() === Orientation.LANDSCAPE &&
-                this.getCurrentPageIndex() === 0
-            ) {
-                (this.ui as HTMLUI).setInitialCenterPosition();
+        if (this.storage === null) {
+            this.showPage(urlPage ?? this.setting.startPage);
+            onShow();
+            return;
+        }
+
+        void this.storage.load().then((state) => {
+            if (state === null) {
+                this.showPage(urlPage ?? this.setting.startPage);
+                onShow();
+                return;
             }
 
-            this.trigger('init', this, {
-                page: this.setting.startPage,
-                mode: this.render.getOrientation(),
-            });
-        }, 1);
+            // Only the reading position is restored, the settings always come from the configuration
+            this.showPage(urlPage ?? Math.min(state.page, this.getVirtualPageCount() - 1));
+            onShow();
+
+            // The zoom is restored after the book sizes are calculated on init
+            if (this.setting.useZoom && state.zoom !== 1)
+                this.once('init', () => this.zoomTo(state.zoom));
+        });
+    }
+
+    /**
+     * Show the start page. The pages shown before (while the book is built) are not saved
+     *
+     * @param {number} page - Start page index
+     */
+    private showPage(page: number): void {
+        this.isStarted = true;
+        this.pages.show(page);
     }
 
     /**
      * Update current pages from images
      *
-     * @param {string[]} imagesHref - List of paths to images
+     * @param {ImageDescriptor[]} images - List of images: paths, lists of the resolutions or resolvers
      */
-    public updateFromImages(imagesHref: string[]): void {
+    public updateFromImages(images: ImageDescriptor[]): void {
         const current = this.pages.getCurrentPageIndex();
 
         this.pages.destroy();
-        this.pages = new ImagePageCollection(this, this.render, imagesHref);
+        this.pages = new ImagePageCollection(this, this.render, images);
         this.pages.load();
 
         this.pages.show(current);
@@ -173,6 +366,133 @@ export class PageFlip extends EventObject {
         });
     }
 
+    /**
+     * Insert pages into the book. The change is delayed until the end of the flipping
+     *
+     * @param {number} index - Index of the first inserted page
+     * @param {PageSource[]} items - HTML elements on the HTML mode, images on the Canvas mode
+     */
+    public insertPages(index: number, items: PageSource[]): void {
+        const pageCount = this.getPendingPageCount();
+        this.checkPageRange(index, 0, pageCount);
+
+        const pages = items.map((item) => this.pages.createPage(item));
+
+        this.changePages(pageCount + pages.length, () => {
+            this.addPageElements(pages);
+            this.pages.insertPages(index, pages);
+        });
+    }
+
+    /**
+     * Remove pages from the book. The change is delayed until the end of the flipping
+     *
+     * @param {number} index - Index of the first removed page
+     * @param {number} count - Number of removed pages
+     */
+    public removePages(index: number, count = 1): void {
+        const pageCount = this.getPendingPageCount();
+        this.checkPageRange(index, count, pageCount);
+
+        if (count >= pageCount) throw new Error('Book must have at least one page');
+
+        this.changePages(pageCount - count, () => {
+            this.removePageElements(this.pages.removePages(index, count));
+        });
+    }
+
+    /**
+     * Replace the page. The change is delayed until the end of the flipping
+     *
+     * @param {number} index - Page index
+     * @param {PageSource} item - HTML element on the HTML mode, image on the Canvas mode
+     */
+    public replacePage(index: number, item: PageSource): void {
+        const pageCount = this.getPendingPageCount();
+        this.checkPageRange(index, 1, pageCount);
+
+        const page = this.pages.createPage(item);
+
+        this.changePages(pageCount, () => {
+            this.addPageElements([page]);
+            this.removePageElements([this.pages.replacePage(index, page)]);
+        });
+    }
+
+    /**
+     * Move the page to a new position. The change is delayed until the end of the flipping
+     *
+     * @param {number} from - Current page index
+     * @param {number} to - New page index
+     */
+    public movePage(from: number, to: number): void {
+        const pageCount = this.getPendingPageCount();
+        this.checkPageRange(from, 1, pageCount);
+        this.checkPageRange(to, 1, pageCount);
+
+        this.changePages(pageCount, () => this.pages.movePage(from, to));
+    }
+
+    /**
+     * Load a better resolution of the shown images if the book grows or zooms (Canvas mode)
+     */
+    private updateImageResolution(): void {
+        if (this.pages instanceof ImagePageCollection) this.pages.updateResolution();
+    }
+
+    /**
+     * Get the number of pages after the delayed changes of the page list
+     */
+    private getPendingPageCount(): number {
+        return this.pendingPageChanges.length > 0 ? this.pendingPageCount : this.getPageCount();
+    }
+
+    /**
+     * Check the arguments of the page list change before it is delayed, so the caller gets the error
+     *
+     * @param {number} index - Index of the first changed page
+     * @param {number} count - Number of changed pages
+     * @param {number} pageCount - Number of pages before the change
+     */
+    private checkPageRange(index: number, count: number, pageCount: number): void {
+        if (this.setting.totalVirtualPages)
+            throw new Error('Page list changes are not available with virtual pages');
+
+        if (!Number.isInteger(index) || index < 0 || count < 0 || index + count > pageCount)
+            throw new Error('Invalid page number');
+    }
+
+    /**
+     * Apply the change of the page list now or after the flipping
+     *
+     * @param {number} pageCount - Number of pages after the change
+     * @param {Function} change
+     */
+    private changePages(pageCount: number, change: () => void): void {
+        if (this.getState() !== FlippingState.READ) {
+            this.pendingPageChanges.push(change);
+            this.pendingPageCount = pageCount;
+            return;
+        }
+
+        change();
+
+        this.trigger('update', this, {
+            page: this.getCurrentPageIndex(),
+            mode: this.render.getOrientation(),
+        });
+    }
+
+    private addPageElements(pages: Page[]): void {
+        if (this.ui instanceof HTMLUI)
+            this.ui.addItems(pages.map((page) => (page as HTMLPage).getElement()));
+    }
+
+    private removePageElements(pages: Page[]): void {
+        if (this.ui instanceof HTMLUI)
+            this.ui.removeItems(pages.map((page) => (page as HTMLPage).getElement()));
+    }
+
     /**
      * Clear pages from HTML (remove to initinalState)
      */
@@ -185,14 +505,16 @@ export class PageFlip extends EventObject {
      * Turn to the previous page (without animation)
      */
     public turnToPrevPage(): void {
-        this.pages.showPrev();
+        if (this.isRtl()) this.pages.showNext();
+        else this.pages.showPrev();
     }
 
     /**
      * Turn to the next page (without animation)
      */
     public turnToNextPage(): void {
-        this.pages.showNext();
+        if (this.isRtl()) this.pages.showPrev();
+        else this.pages.showNext();
     }
 
     /**
@@ -208,18 +530,26 @@ export class PageFlip extends EventObject {
      * Turn to the next page (with animation)
      *
      * @param {FlipCorner} corner - Active page corner when turning
+     *
+     * @returns {Promise<FlipResult>} Resolved with the final page index when the animation ends
      */
-    public flipNext(corner: FlipCorner = FlipCorner.BOTTOM): void {
-        this.flipController.flipNext(corner);
+    public flipNext(corner: FlipCorner = FlipCorner.BOTTOM): Promise<FlipResult> {
+        if (this.isRtl()) return this.flipController.flipPrev(corner);
+
+        return this.flipController.flipNext(corner);
     }
 
     /**
      * Turn to the prev page (with animation)
      *
      * @param {FlipCorner} corner - Active page corner when turning
+     *
+     * @returns {Promise<FlipResult>} Resolved with the final page index when the animation ends
      */
-    public flipPrev(corner: FlipCorner = FlipCorner.BOTTOM): void {
-        this.flipController.flipPrev(corner);
+    public flipPrev(corner: FlipCorner = FlipCorner.BOTTOM): Promise<FlipResult> {
+        if (this.isRtl()) return this.flipController.flipNext(corner);
+
+        return this.flipController.flipPrev(corner);
     }
 
     /**
@@ -227,9 +557,100 @@ export class PageFlip extends EventObject {
      *
      * @param {number} page - New page number
      * @param {FlipCorner} corner - Active page corner when turning
+     *
+     * @returns {Promise<FlipResult>} Resolved with the final page index when the animation ends
+     */
+    public flip(page: number, corner: FlipCorner = FlipCorner.BOTTOM): Promise<FlipResult> {
+        return this.flipController.flipToPage(page, corner);
+    }
+
+    /**
+     * Get the table of contents of the book
+     *
+     * @returns {Chapter[]} Chapter tree
+     */
+    public getOutline(): Chapter[] {
+        return this.pages.getOutline().getChapters();
+    }
+
+    /**
+     * Get the chapter of the current page
+     *
+     * @returns {Chapter} Chapter or null if the current page is before the first chapter
+     */
+    public getCurrentChapter(): Chapter {
+        return this.currentChapter;
+    }
+
+    /**
+     * Turn to the first page of the chapter
+     *
+     * @param {string} id - Chapter id
+     * @param {boolean} animated - Turn with animation
+     *
+     * @returns {Promise<FlipResult>} Resolved with the final page index when the turning ends, rejected if the chapter is unknown
+     */
+    public goToChapter(id: string, animated = true): Promise<FlipResult> {
+        const chapter = this.pages.getOutline().getChapter(id);
+        if (chapter === null) return Promise.reject(new Error('Invalid chapter id'));
+
+        if (animated) return this.flip(chapter.page);
+
+        this.turnToPage(chapter.page);
+
+        return Promise.resolve({
+            status: FlipStatus.COMPLETED,
+            page: this.getCurrentPageIndex(),
+        });
+    }
+
+    /**
+     * Zoom the book
+     *
+     * @param {number} scale - New zoom level, clamped to minZoom..maxZoom
+     * @param {Point} point - Fixed point relative to the root element. Center of the book by default
+     */
+    public zoomTo(scale: number, point?: Point): void {
+        this.ui.getZoom().zoomTo(scale, point);
+    }
+
+    /**
+     * Reset zoom and pan
+     */
+    public resetZoom(): void {
+        this.ui.getZoom().resetZoom();
+    }
+
+    /**
+     * Get current zoom level
+     *
+     * @returns {number} Zoom level (1: no zoom)
+     */
+    public getZoom(): number {
+        return this.ui.getZoom().getScale();
+    }
+
+    /**
+     * Show the book in fullscreen
+     *
+     * @param {boolean} isPresentation - Hide the cursor and the corner folds after inactivity
      */
-    public flip(page: number, corner: FlipCorner = FlipCorner.BOTTOM): void {
-        this.flipController.flipToPage(page, corner);
+    public enterFullscreen(isPresentation = false): Promise<void> {
+        return this.ui.getFullscreen().enter(isPresentation);
+    }
+
+    /**
+     * Leave fullscreen
+     */
+    public exitFullscreen(): Promise<void> {
+        return this.ui.getFullscreen().exit();
+    }
+
+    /**
+     * Check if the book is shown in fullscreen
+     */
+    public isFullscreen(): boolean {
+        return this.ui.getFullscreen().isActive();
     }
 
     /**
@@ -239,6 +660,16 @@ export class PageFlip extends EventObject {
      */
     public updateState(newState: FlippingState): void {
         this.trigger('changeState', this, newState);
+
+        if (newState === FlippingState.READ && this.pendingPageChanges.length > 0) {
+            // The flip controller completes the turning after the state change
+            setTimeout(() => {
+                const changes = this.pendingPageChanges;
+                this.pendingPageChanges = [];
+
+                for (const change of changes) this.changePages(this.pendingPageCount, change);
+            });
+        }
     }
 
     /**
@@ -248,6 +679,100 @@ export class PageFlip extends EventObject {
      */
     public updatePageIndex(newPage: number): void {
         this.trigger('flip', this, newPage);
+
+        this.updateImageResolution();
+
+        if (this.storage !== null && this.isStarted) this.storage.save();
+        if (this.router !== null && this.isStarted) this.router.update(newPage);
+
+        const chapter = this.pages.getOutline().getChapterByPage(newPage);
+        if (chapter !== this.currentChapter) {
+            this.currentChapter = chapter;
+            this.trigger('chapterChange', this, chapter);
+        }
+    }
+
+    /**
+     * Call a page loading event trigger
+     *
+     * @param {number} pageIndex - Index of the loaded page
+     */
+    public updatePageLoad(pageIndex: number): void {
+        this.trigger('pageLoad', this, pageIndex);
+    }
+
+    /**
+     * Call a lazy page unloading event trigger
+     *
+     * @param {number} pageIndex - Index of the unloaded page
+     */
+    public updatePageUnload(pageIndex: number): void {
+        this.trigger('pageUnload', this, pageIndex);
+    }
+
+    /**
+     * Call a page error event trigger
+     *
+     * @param {number} pageIndex - Index of the page failed to load
+     * @param {string} url - Path to the content failed to load
+     */
+    public updatePageError(pageIndex: number, url: string): void {
+        this.trigger('pageError', this, { page: pageIndex, url });
+    }
+
+    /**
+     * Call the loading progress event triggers
+     *
+     * @param {number} loaded - Number of the loaded (or failed) pages
+     * @param {number} total - Number of the requested pages (all pages if they are not loaded from a provider)
+     */
+    public updateLoadProgress(loaded: number, total: number): void {
+        this.trigger('loadProgress', this, { loaded, total });
+
+        if (loaded === total) this.trigger('pagesLoaded', this, total);
+    }
+
+    /**
+     * Call a fullscreen change event trigger. The book sizes are recalculated against the screen
+     *
+     * @param {boolean} isFullscreen - True if the book is in fullscreen
+     */
+    public updateFullscreen(isFullscreen: boolean): void {
+        this.ui.setOrientationStyle(this.render.getOrientation());
+        this.update();
+
+        this.trigger('fullscreenChange', this, isFullscreen);
+    }
+
+    /**
+     * Call a resize event trigger
+     *
+     * @param {PageRect} rect - New book sizes and position
+     */
+    public updateBounds(rect: PageRect): void {
+        this.trigger('resize', this, rect);
+
+        this.updateImageResolution();
+    }
+
+    /**
+     * Load the images of the resolution required by the new devicePixelRatio (Canvas mode)
+     */
+    public updatePixelRatio(): void {
+        this.updateImageResolution();
+    }
+
+    /**
+     * Call a zoom change event trigger
+     *
+     * @param {number} scale - New zoom level
+     */
+    public updateZoom(scale: number): void {
+        this.trigger('zoom', this, scale);
+
+        this.updateImageResolution();
+
+        if (this.storage !== null && this.isStarted) this.storage.save();
     }
 
     /**
@@ -261,6 +786,13 @@ export class PageFlip extends EventObject {
         this.trigger('changeOrientation', this, newOrientation);
     }
 
+    /**
+     * Check if the book is read from right to left
+     */
+    public isRtl(): boolean {
+        return this.setting.direction === ReadingDirection.RTL;
+    }
+
     /**
      * Get the total number of pages in a book
      *
@@ -270,6 +802,26 @@ export class PageFlip extends EventObject {
         return this.pages.getPageCount();
     }
 
+    /**
+     * Get the number of pages in the book: the number of the virtual pages if they are used (totalVirtualPages)
+     *
+     * @returns {number}
+     */
+    public getVirtualPageCount(): number {
+        return this.pages.getVirtualPageCount();
+    }
+
+    /**
+     * Turn to the specified virtual page (without animation)
+     *
+     * @param {number} page - Virtual page index
+     */
+    public turnToVirtualPage(page: number): void {
+        if (!this.setting.totalVirtualPages) throw new Error('Virtual pages are not used');
+
+        this.pages.show(page);
+    }
+
     /**
      * Get the index of the current page in the page list (starts at 0)
      *
@@ -379,6 +931,9 @@ export class PageFlip extends EventObject {
      * @param {boolean} isTouch - True if there was a touch event, not a mouse click
      */
     public userMove(pos: Point, isTouch: boolean): void {
+        // The zoomed book is panned, not folded
+        if (this.ui.getZoom().isActive()) return;
+
         if (!this.isUserTouch && !isTouch && this.setting.showPageCorners) {
             this.flipController.showCorner(pos); // fold Page Corner
         } else if (this.isUserTouch) {
@@ -400,8 +955,14 @@ export class PageFlip extends EventObject {
             this.isUserTouch = false;
 
             if (!isSwipe) {
-                if (!this.isUserMove) this.flipController.flip(pos);
-                else this.flipController.stopMove();
+                if (!this.isUserMove) {
+                    // The click can be the first one of a double click zooming the book
+                    this.ui.getZoom().deferClick(() => {
+                        if (!this.ui.getZoom().isActive()) void this.flipController.flip(pos);
+                    });
+                } else {
+                    this.flipController.stopMove();
+                }
             }
         }
     }
@@ -433,18 +994,17 @@ export class PageFlip extends EventObject {
             this.ui.update();
             this.render.start();
 
-            // 🎯 첫 페이지이고 landscape 모드일 때 중앙 정렬
-            if (
-                this.render.getOrientation() === Orientation.LANDSCAPE &&
-                this.getCurrentPageIndex() === 0
-            ) {
+            const sides = this.pages.getSpreadSides(this.pages.getCurrentSpreadIndex());
+            const isLandscape = this.render.getOrientation() === Orientation.LANDSCAPE;
+
+            // 🎯 커버 페이지이고 landscape 모드일 때 중앙 정렬
+            if (isLandscape && sides.left === null) {
                 (this.ui as HTMLUI).firstPageCenter();
+            } else if (isLandscape && sides.right === null) {
+                (this.ui as HTMLUI).firstPageEndCenter();
             }
-            // 🎯 Portrait 모드이거나 첫 페이지가 아닐 때 중앙 정렬 해제
-            else if (
-                this.render.getOrientation() === Orientation.PORTRAIT ||
-                this.getCurrentPageIndex() !== 0
-            ) {
+            // 🎯 Portrait 모드이거나 커버 페이지가 아닐 때 중앙 정렬 해제
+            else {
                 (this.ui as HTMLUI).firstPageCenterReverse();
             }
 
@@ -464,5 +1024,23 @@ export class PageFlip extends EventObject {
     }
 }
 
-export { SizeType } from './Settings';
-export { type FlipSetting } from './Settings';
+export {
+    SizeType,
+    WheelAxis,
+    ReadingDirection,
+    Binding,
+    StorageType,
+    NavigatorLayout,
+} from './Settings';
+export {
+    type FlipSetting,
+    type KeyBindings,
+    type CanvasPlaceholderRenderer,
+    type PlaceholderRect,
+} from './Settings';
+export { type PageSource, type PageProvider } from './Collection/PageCollection';
+export { type ImageSource, type ImageResolver, type ImageDescriptor } from './Page/ImagePage';
+export { type FlipResult } from './Flip/Flip';
+export { type StorageAdapter } from './Storage/StorageAdapter';
+export { type Chapter } from './Outline/Outline';
+export { type WidgetEvent, type EventCallback, type Unsubscribe } from './Event/EventObject';
@@ -3,6 +3,7 @@ import { PageFlip } from '../PageFlip';
 import { FlipDirection } from '../Flip/Flip';
 import { PageOrientation } from '../Page/Page';
 import { FlipSetting } from '../Settings';
+import { CanvasUI } from '../UI/CanvasUI';
 
 /**
  * Class responsible for rendering the Canvas book
@@ -11,17 +12,72 @@ export class CanvasRender extends Render {
     private readonly canvas: HTMLCanvasElement;
     private readonly ctx: CanvasRenderingContext2D;
 
+    /** "r, g, b" components of the spine shadow color */
+    private readonly spineShadowRgb: string;
+    /** Alpha component of the spine shadow color, multiplies the shadow opacity */
+    private readonly spineShadowAlpha: number;
+
     constructor(app: PageFlip, setting: FlipSetting, inCanvas: HTMLCanvasElement) {
         super(app, setting);
 
         this.canvas = inCanvas;
         this.ctx = inCanvas.getContext('2d');
+
+        [this.spineShadowRgb, this.spineShadowAlpha] = this.toRgba(setting.spineShadowColor);
+    }
+
+    /**
+     * Convert a CSS color to the "r, g, b" components and the alpha, for the gradient stops with their own opacity
+     *
+     * @param {string} color - Any CSS color
+     */
+    private toRgba(color: string): [string, number] {
+        // The context normalizes opaque colors to #rrggbb and translucent ones to rgba(r, g, b, a)
+        this.ctx.fillStyle = '#000000';
+        this.ctx.fillStyle = color;
+
+        const normalized = String(this.ctx.fillStyle);
+
+        const hex = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(normalized);
+        if (hex !== null) {
+            return [
+                hex
+                    .slice(1)
+                    .map((item) => parseInt(item, 16))
+                    .join(', '),
+                1,
+            ];
+        }
+
+        const rgba = /^rgba\((\d+), (\d+), (\d+), ([\d.]+)\)$/.exec(normalized);
+        if (rgba !== null) return [rgba.slice(1, 4).join(', '), parseFloat(rgba[4])];
+
+        return ['0, 0, 0', 1];
     }
 
     public getContext(): CanvasRenderingContext2D {
         return this.ctx;
     }
 
+    /**
+     * Get the number of canvas pixels per CSS pixel
+     */
+    public getPixelRatio(): number {
+        return (this.app.getUI() as CanvasUI).getPixelRatio();
+    }
+
+    /**
+     * Get the image width (device pixels) showing a page sharp at the current size and zoom
+     */
+    public getRequiredImageWidth(): number {
+        const rect = this.getRect();
+
+        // The image is rotated in the top binding mode
+        const width = this.isTopBinding() ? rect.height : rect.pageWidth;
+
+        return width * this.getPixelRatio() * this.app.getZoom();
+    }
+
     public reload(): void {
         //
     }
@@ -34,6 +90,11 @@ export class CanvasRender extends Render {
 
         if (this.rightPage != null) this.rightPage.simpleDraw(PageOrientation.RIGHT);
 
+        if (this.riffleSheets.length > 0) {
+            this.drawRiffle();
+            return;
+        }
+
         if (this.bottomPage != null) this.bottomPage.draw();
 
         this.drawBookShadow();
@@ -54,13 +115,45 @@ export class CanvasRender extends Render {
         }
     }
 
+    /**
+     * Draw the sheets of the riffle animation. Later sheets are drawn above earlier ones
+     */
+    private drawRiffle(): void {
+        const isForward = this.direction === FlipDirection.FORWARD;
+
+        for (const sheet of this.riffleSheets) {
+            if (sheet.progress <= 0 || sheet.bottomPage === null) continue;
+
+            if (sheet.progress >= 1)
+                sheet.bottomPage.simpleDraw(
+                    isForward ? PageOrientation.RIGHT : PageOrientation.LEFT,
+                );
+            else sheet.bottomPage.draw();
+        }
+
+        this.drawBookShadow();
+
+        for (const sheet of this.riffleSheets) {
+            if (sheet.progress <= 0) continue;
+
+            if (sheet.progress >= 1)
+                sheet.flippingPage.simpleDraw(
+                    isForward ? PageOrientation.LEFT : PageOrientation.RIGHT,
+                );
+            else sheet.flippingPage.draw();
+        }
+    }
+
     private drawBookShadow(): void {
         const rect = this.getRect();
+        const opacity = this.setting.spineShadowOpacity;
+
+        if (opacity === 0) return;
 
         this.ctx.save();
         this.ctx.beginPath();
 
-        const shadowSize = rect.width / 20;
+        const shadowSize = rect.width * this.setting.spineShadowWidth;
         this.ctx.rect(rect.left, rect.top, rect.width, rect.height);
 
         const shadowPos = { x: rect.left + rect.width / 2 - shadowSize / 2, y: 0 };
@@ -68,12 +161,15 @@ export class CanvasRender extends Render {
 
         const outerGradient = this.ctx.createLinearGradient(0, 0, shadowSize, 0);
 
-        outerGradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
-        outerGradient.addColorStop(0.4, 'rgba(0, 0, 0, 0.2)');
-        outerGradient.addColorStop(0.49, 'rgba(0, 0, 0, 0.1)');
-        outerGradient.addColorStop(0.5, 'rgba(0, 0, 0, 0.5)');
-        outerGradient.addColorStop(0.51, 'rgba(0, 0, 0, 0.4)');
-        outerGradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+        const color = (alpha: number): string =>
+            'rgba(' + this.spineShadowRgb + ', ' + alpha * opacity * this.spineShadowAlpha + ')';
+
+        outerGradient.addColorStop(0, color(0));
+        outerGradient.addColorStop(0.4, color(0.2));
+        outerGradient.addColorStop(0.49, color(0.1));
+        outerGradient.addColorStop(0.5, color(0.5));
+        outerGradient.addColorStop(0.51, color(0.4));
+        outerGradient.addColorStop(1, color(0));
 
         this.ctx.clip();
 
@@ -161,7 +257,17 @@ export class CanvasRender extends Render {
     }
 
     private clear(): void {
-        this.ctx.fillStyle = 'white';
+        this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+        this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+
+        this.ctx.fillStyle = this.setting.canvasBackground;
         this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+        // The book is drawn in CSS pixels in its own axes, swapped in the top binding mode
+        const ratio = this.getPixelRatio();
+
+        if (this.isTopBinding()) this.ctx.setTransform(0, ratio, ratio, 0, 0, 0);
+        else this.ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
     }
 }
@@ -1,7 +1,7 @@
 import { Orientation, Render } from './Render';
 import { PageFlip } from '../PageFlip';
 import { FlipDirection } from '../Flip/Flip';
-import { PageDensity, PageOrientation } from '../Page/Page';
+import { Page, PageDensity, PageOrientation } from '../Page/Page';
 import { HTMLPage } from '../Page/HTMLPage';
 import { Helper } from '../Helper';
 import { FlipSetting } from '../Settings';
@@ -121,6 +121,33 @@ export class HTMLRender extends Render {
         }
     }
 
+    /**
+     * Convert a css gradient direction from the book axes to the screen axes
+     *
+     * @param {string} direction - 'to left' or 'to right'
+     */
+    private toScreenDirection(direction: string): string {
+        if (!this.isTopBinding()) return direction;
+
+        return direction === 'to left' ? 'to top' : 'to bottom';
+    }
+
+    /**
+     * Convert a rotation angle from the book axes to the screen axes. Swapping the axes mirrors the rotation
+     *
+     * @param {number} angle - Angle in the book axes (rad)
+     */
+    private toScreenAngle(angle: number): number {
+        return this.isTopBinding() ? -angle : angle;
+    }
+
+    /**
+     * Css rotation turning the hard page shadow over the spine
+     */
+    private getHardFlipRotation(): string {
+        return this.isTopBinding() ? 'rotateX(180deg)' : 'rotateY(180deg)';
+    }
+
     /**
      * Draw inner shadow to the hard page
      */
@@ -133,15 +160,19 @@ export class HTMLRender extends Render {
         let innerShadowSize = ((100 - progress) * (2.5 * rect.pageWidth)) / 100 + 20;
         if (innerShadowSize > rect.pageWidth) innerShadowSize = rect.pageWidth;
 
+        const size = this.toScreenAxes({ x: innerShadowSize, y: rect.height });
+        const pos = this.toScreenAxes({ x: rect.left + rect.width / 2, y: 0 });
+
         let newStyle = `
             display: block;
             z-index: ${(this.getSettings().startZIndex + 5).toString(10)};
-            width: ${innerShadowSize}px;
-            height: ${rect.height}px;
-            background: linear-gradient(to right,
+            width: ${size.x}px;
+            height: ${size.y}px;
+            background: linear-gradient(${this.toScreenDirection('to right')},
                 rgba(0, 0, 0, ${(this.shadow.opacity * progress) / 100}) 5%,
                 rgba(0, 0, 0, 0) 100%);
-            left: ${rect.left + rect.width / 2}px;
+            left: ${pos.x}px;
+            top: ${pos.y}px;
             transform-origin: 0 0;
         `;
 
@@ -149,7 +180,7 @@ export class HTMLRender extends Render {
             (this.getDirection() === FlipDirection.FORWARD && this.shadow.progress > 100) ||
             (this.getDirection() === FlipDirection.BACK && this.shadow.progress <= 100)
                 ? `transform: translate3d(0, 0, 0);`
-                : `transform: translate3d(0, 0, 0) rotateY(180deg);`;
+                : `transform: translate3d(0, 0, 0) ${this.getHardFlipRotation()};`;
 
         this.hardInnerShadow.style.cssText = newStyle;
     }
@@ -166,22 +197,26 @@ export class HTMLRender extends Render {
         let shadowSize = ((100 - progress) * (2.5 * rect.pageWidth)) / 100 + 20;
         if (shadowSize > rect.pageWidth) shadowSize = rect.pageWidth;
 
+        const size = this.toScreenAxes({ x: shadowSize, y: rect.height });
+        const pos = this.toScreenAxes({ x: rect.left + rect.width / 2, y: 0 });
+
         let newStyle = `
             display: block;
             z-index: ${(this.getSettings().startZIndex + 4).toString(10)};
-            width: ${shadowSize}px;
-            height: ${rect.height}px;
-            background: linear-gradient(to left, rgba(0, 0, 0, ${
+            width: ${size.x}px;
+            height: ${size.y}px;
+            background: linear-gradient(${this.toScreenDirection('to left')}, rgba(0, 0, 0, ${
                 this.shadow.opacity
             }) 5%, rgba(0, 0, 0, 0) 100%);
-            left: ${rect.left + rect.width / 2}px;
+            left: ${pos.x}px;
+            top: ${pos.y}px;
             transform-origin: 0 0;
         `;
 
         newStyle +=
             (this.getDirection() === FlipDirection.FORWARD && this.shadow.progress > 100) ||
             (this.getDirection() === FlipDirection.BACK && this.shadow.progress <= 100)
-                ? `transform: translate3d(0, 0, 0) rotateY(180deg);`
+                ? `transform: translate3d(0, 0, 0) ${this.getHardFlipRotation()};`
                 : `transform: translate3d(0, 0, 0);`;
 
         this.hardShadow.style.cssText = newStyle;
@@ -223,27 +258,32 @@ export class HTMLRender extends Render {
                           y: p.y - this.shadow.pos.y,
                       };
 
-            g = Helper.GetRotatedPoint(g, { x: shadowTranslate, y: 100 }, angle);
+            g = this.toScreenAxes(Helper.GetRotatedPoint(g, { x: shadowTranslate, y: 100 }, angle));
 
             polygon += g.x + 'px ' + g.y + 'px, ';
         }
         polygon = polygon.slice(0, -2);
         polygon += ')';
 
+        const size = this.toScreenAxes({ x: innerShadowSize, y: rect.height * 2 });
+        const origin = this.toScreenAxes({ x: shadowTranslate, y: 100 });
+        const translate = this.toScreenAxes({
+            x: shadowPos.x - shadowTranslate,
+            y: shadowPos.y - 100,
+        });
+
         const newStyle = `
             display: block;
             z-index: ${(this.getSettings().startZIndex + 10).toString(10)};
-            width: ${innerShadowSize}px;
-            height: ${rect.height * 2}px;
-            background: linear-gradient(${shadowDirection},
+            width: ${size.x}px;
+            height: ${size.y}px;
+            background: linear-gradient(${this.toScreenDirection(shadowDirection)},
                 rgba(0, 0, 0, ${this.shadow.opacity}) 5%,
                 rgba(0, 0, 0, 0.05) 15%,
                 rgba(0, 0, 0, ${this.shadow.opacity}) 35%,
                 rgba(0, 0, 0, 0) 100%);
-            transform-origin: ${shadowTranslate}px 100px;
-            transform: translate3d(${shadowPos.x - shadowTranslate}px, ${
-                shadowPos.y - 100
-            }px, 0) rotate(${angle}rad);
+            transform-origin: ${origin.x}px ${origin.y}px;
+            transform: translate3d(${translate.x}px, ${translate.y}px, 0) rotate(${this.toScreenAngle(angle)}rad);
             clip-path: ${polygon};
             -webkit-clip-path: ${polygon};
         `;
@@ -286,7 +326,9 @@ export class HTMLRender extends Render {
                               y: p.y - this.shadow.pos.y,
                           };
 
-                g = Helper.GetRotatedPoint(g, { x: shadowTranslate, y: 100 }, angle);
+                g = this.toScreenAxes(
+                    Helper.GetRotatedPoint(g, { x: shadowTranslate, y: 100 }, angle),
+                );
 
                 polygon += g.x + 'px ' + g.y + 'px, ';
             }
@@ -295,18 +337,23 @@ export class HTMLRender extends Render {
         polygon = polygon.slice(0, -2);
         polygon += ')';
 
+        const size = this.toScreenAxes({ x: this.shadow.width, y: rect.height * 2 });
+        const origin = this.toScreenAxes({ x: shadowTranslate, y: 100 });
+        const translate = this.toScreenAxes({
+            x: shadowPos.x - shadowTranslate,
+            y: shadowPos.y - 100,
+        });
+
         const newStyle = `
             display: block;
             z-index: ${(this.getSettings().startZIndex + 10).toString(10)};
-            width: ${this.shadow.width}px;
-            height: ${rect.height * 2}px;
-            background: linear-gradient(${shadowDirection}, rgba(0, 0, 0, ${
+            width: ${size.x}px;
+            height: ${size.y}px;
+            background: linear-gradient(${this.toScreenDirection(shadowDirection)}, rgba(0, 0, 0, ${
                 this.shadow.opacity
             }), rgba(0, 0, 0, 0));
-            transform-origin: ${shadowTranslate}px 100px;
-            transform: translate3d(${shadowPos.x - shadowTranslate}px, ${
-                shadowPos.y - 100
-            }px, 0) rotate(${angle}rad);
+            transform-origin: ${origin.x}px ${origin.y}px;
+            transform: translate3d(${translate.x}px, ${translate.y}px, 0) rotate(${this.toScreenAngle(angle)}rad);
             clip-path: ${polygon};
             -webkit-clip-path: ${polygon};
         `;
@@ -376,6 +423,61 @@ export class HTMLRender extends Render {
         }
     }
 
+    /**
+     * Draw the sheets of the riffle animation. Later sheets are drawn above earlier ones
+     */
+    private drawRiffle(): void {
+        const startZIndex = this.getSettings().startZIndex;
+        const count = this.riffleSheets.length;
+
+        const isForward = this.direction === FlipDirection.FORWARD;
+
+        this.riffleSheets.forEach((sheet, i) => {
+            if (sheet.progress > 0 && sheet.bottomPage !== null)
+                this.drawRifflePage(
+                    sheet.bottomPage,
+                    sheet.progress,
+                    startZIndex + 2 + i,
+                    isForward ? PageOrientation.RIGHT : PageOrientation.LEFT,
+                );
+        });
+
+        this.riffleSheets.forEach((sheet, i) => {
+            if (sheet.progress > 0)
+                this.drawRifflePage(
+                    sheet.flippingPage,
+                    sheet.progress,
+                    startZIndex + 3 + count + i,
+                    isForward ? PageOrientation.LEFT : PageOrientation.RIGHT,
+                );
+        });
+    }
+
+    /**
+     * Draw a page of the riffle sheet. Landed sheets are drawn as static pages
+     *
+     * @param {Page} page
+     * @param {number} progress - Sheet flipping progress (0 - 1)
+     * @param {number} zIndex
+     * @param {PageOrientation} landedOrientation - Page side after landing
+     */
+    private drawRifflePage(
+        page: Page,
+        progress: number,
+        zIndex: number,
+        landedOrientation: PageOrientation,
+    ): void {
+        const element = (page as HTMLPage).getElement();
+
+        if (progress >= 1) {
+            page.simpleDraw(landedOrientation);
+            element.style.zIndex = zIndex.toString(10);
+        } else {
+            element.style.zIndex = zIndex.toString(10);
+            page.draw(PageDensity.SOFT);
+        }
+    }
+
     protected drawFrame(): void {
         this.clear();
 
@@ -383,6 +485,11 @@ export class HTMLRender extends Render {
 
         this.drawRightPage();
 
+        if (this.riffleSheets.length > 0) {
+            this.drawRiffle();
+            return;
+        }
+
         this.drawBottomPage();
 
         if (this.flippingPage != null) {
@@ -410,7 +517,8 @@ export class HTMLRender extends Render {
                 page !== this.leftPage &&
                 page !== this.rightPage &&
                 page !== this.flippingPage &&
-                page !== this.bottomPage
+                page !== this.bottomPage &&
+                !this.isRifflePage(page)
             ) {
                 (page as HTMLPage).getElement().style.cssText = 'display: none';
             }
@@ -2,10 +2,11 @@ import { PageFlip } from '../PageFlip';
 import { Point, PageRect, RectPoints } from '../BasicTypes';
 import { FlipDirection } from '../Flip/Flip';
 import { Page, PageOrientation } from '../Page/Page';
-import { FlipSetting, SizeType } from '../Settings';
+import { Binding, FlipSetting, SizeType } from '../Settings';
 
 type FrameAction = () => void;
-type AnimationSuccessAction = () => void;
+/** Animation end callback. isInterrupted is true if the animation was finished before its last frame */
+type AnimationSuccessAction = (isInterrupted: boolean) => void;
 
 /**
  * Type describing calculated values for drop shadows
@@ -42,6 +43,18 @@ type AnimationProcess = {
     startedAt: number;
 };
 
+/**
+ * Type describing a sheet of the riffle animation (several sheets flipping at the same time)
+ */
+export type RiffleSheet = {
+    /** Back side of the sheet, lands on the opposite side of the book */
+    flippingPage: Page;
+    /** Page revealed under the sheet. Null at the book ends */
+    bottomPage: Page;
+    /** Flipping progress (0: not started, 1: landed) */
+    progress: number;
+};
+
 /**
  * Book orientation
  */
@@ -66,6 +79,8 @@ export abstract class Render {
     protected flippingPage: Page = null;
     /** Next page at the time of flipping */
     protected bottomPage: Page = null;
+    /** Sheets of the current riffle animation, in flipping order */
+    protected riffleSheets: RiffleSheet[] = [];
 
     /** Current flipping direction */
     protected direction: FlipDirection = null;
@@ -127,8 +142,11 @@ export abstract class Render {
             if (frameIndex < this.animation.frames.length) {
                 this.animation.frames[frameIndex]();
             } else {
-                this.animation.onAnimateEnd();
+                // Clear the process first, the callback can start the next animation
+                const onAnimateEnd = this.animation.onAnimateEnd;
                 this.animation = null;
+
+                onAnimateEnd(false);
             }
         }
 
@@ -198,14 +216,15 @@ export abstract class Render {
      */
     public finishAnimation(): void {
         if (this.animation !== null) {
-            this.animation.frames[this.animation.frames.length - 1]();
+            const animation = this.animation;
+            this.animation = null;
+
+            animation.frames[animation.frames.length - 1]();
 
-            if (this.animation.onAnimateEnd !== null) {
-                this.animation.onAnimateEnd();
+            if (animation.onAnimateEnd !== null) {
+                animation.onAnimateEnd(true);
             }
         }
-
-        this.animation = null;
     }
 
     /**
@@ -233,15 +252,17 @@ export abstract class Render {
             y: this.getBlockHeight() / 2,
         };
 
-        const ratio = this.setting.width / this.setting.height;
+        const size = this.getPageSize();
+
+        const ratio = size.width / size.height;
 
-        let pageWidth = this.setting.width;
-        let pageHeight = this.setting.height;
+        let pageWidth = size.width;
+        let pageHeight = size.height;
 
         let left = middlePoint.x - pageWidth;
 
         if (this.setting.size === SizeType.STRETCH) {
-            if (blockWidth < this.setting.minWidth * 2 && this.app.getSettings().usePortrait)
+            if (blockWidth < size.minWidth * 2 && this.app.getSettings().usePortrait)
                 orientation = Orientation.PORTRAIT;
 
             pageWidth =
@@ -249,7 +270,8 @@ export abstract class Render {
                     ? this.getBlockWidth()
                     : this.getBlockWidth() / 2;
 
-            if (pageWidth > this.setting.maxWidth) pageWidth = this.setting.maxWidth;
+            // In fullscreen the book is limited by the screen only
+            if (pageWidth > size.maxWidth && !this.app.isFullscreen()) pageWidth = size.maxWidth;
 
             pageHeight = pageWidth / ratio;
             if (pageHeight > this.getBlockHeight()) {
@@ -281,6 +303,44 @@ export abstract class Render {
         return orientation;
     }
 
+    /**
+     * Get the page size settings in the book axes
+     */
+    private getPageSize(): { width: number; height: number; minWidth: number; maxWidth: number } {
+        if (this.isTopBinding()) {
+            return {
+                width: this.setting.height,
+                height: this.setting.width,
+                minWidth: this.setting.minHeight,
+                maxWidth: this.setting.maxHeight,
+            };
+        }
+
+        return {
+            width: this.setting.width,
+            height: this.setting.height,
+            minWidth: this.setting.minWidth,
+            maxWidth: this.setting.maxWidth,
+        };
+    }
+
+    /**
+     * Check if the book is bound at the top. The book axes are swapped relative to the screen ones:
+     * the x axis of the book (across the spine) is vertical on the screen
+     */
+    public isTopBinding(): boolean {
+        return this.app.getSettings().binding === Binding.TOP;
+    }
+
+    /**
+     * Convert a point or a size from the book axes to the screen axes
+     *
+     * @param {Point} pos - Point in the book axes
+     */
+    public toScreenAxes(pos: Point): Point {
+        return this.isTopBinding() ? { x: pos.y, y: pos.x } : pos;
+    }
+
     /**
      * Set the current parameters of the drop shadow
      *
@@ -317,17 +377,21 @@ export abstract class Render {
     }
 
     /**
-     * Get parent block offset width
+     * Get parent block offset width (in the book axes)
      */
     public getBlockWidth(): number {
-        return this.app.getUI().getDistElement().offsetWidth;
+        const element = this.app.getUI().getDistElement();
+
+        return this.isTopBinding() ? element.offsetHeight : element.offsetWidth;
     }
 
     /**
-     * Get parent block offset height
+     * Get parent block offset height (in the book axes)
      */
     public getBlockHeight(): number {
-        return this.app.getUI().getDistElement().offsetHeight;
+        const element = this.app.getUI().getDistElement();
+
+        return this.isTopBinding() ? element.offsetWidth : element.offsetHeight;
     }
 
     /**
@@ -414,6 +478,41 @@ export abstract class Render {
         this.bottomPage = page;
     }
 
+    /**
+     * Set sheets of the riffle animation
+     *
+     * @param {RiffleSheet[]} sheets - Sheets in flipping order
+     */
+    public setRiffleSheets(sheets: RiffleSheet[]): void {
+        for (const sheet of sheets) {
+            sheet.flippingPage.setOrientation(
+                this.direction === FlipDirection.FORWARD
+                    ? PageOrientation.LEFT
+                    : PageOrientation.RIGHT,
+            );
+
+            if (sheet.bottomPage !== null)
+                sheet.bottomPage.setOrientation(
+                    this.direction === FlipDirection.FORWARD
+                        ? PageOrientation.RIGHT
+                        : PageOrientation.LEFT,
+                );
+        }
+
+        this.riffleSheets = sheets;
+    }
+
+    /**
+     * Check if the page is a part of the current riffle animation
+     *
+     * @param {Page} page
+     */
+    protected isRifflePage(page: Page): boolean {
+        return this.riffleSheets.some(
+            (sheet) => sheet.flippingPage === page || sheet.bottomPage === page,
+        );
+    }
+
     /**
      * Set currently flipping page
      *
@@ -432,9 +531,26 @@ export abstract class Render {
     }
 
     /**
-     * Coordinate conversion function. Window coordinates -> to book coordinates
+     * Coordinate conversion function. Client (window) coordinates -> global coordinates.
+     * The only place removing the zoom: the book element is scaled by the css transform, global coordinates are not
      *
-     * @param {Point} pos - Global coordinates relative to the window
+     * @param {Point} pos - Coordinates relative to the window (clientX, clientY)
+     * @returns {Point} Global coordinates relative to the book element in the book axes
+     */
+    public convertClientToGlobal(pos: Point): Point {
+        const rect = this.app.getUI().getDistElement().getBoundingClientRect();
+        const scale = this.app.getZoom();
+
+        return this.toScreenAxes({
+            x: (pos.x - rect.left) / scale,
+            y: (pos.y - rect.top) / scale,
+        });
+    }
+
+    /**
+     * Coordinate conversion function. Global coordinates -> to book coordinates
+     *
+     * @param {Point} pos - Global coordinates (see convertClientToGlobal for the window coordinates)
      * @returns {Point} Coordinates relative to the book
      */
     public convertToBook(pos: Point): Point {
@@ -0,0 +1,108 @@
+import { PageFlip } from '../PageFlip';
+
+/**
+ * Synchronization of the current page with the url hash (#page=42) and the browser history
+ */
+export class HistoryRouter {
+    private readonly app: PageFlip;
+
+    /** Time of the last history update. Turns made sooner replace the entry instead of adding a new one */
+    private lastUpdateTime = 0;
+    private isUpdated = false;
+
+    /** Page turned to by the back/forward navigation */
+    private targetPage: number = null;
+
+    /**
+     * @constructor
+     *
+     * @param {PageFlip} app - PageFlip instanse
+     */
+    constructor(app: PageFlip) {
+        this.app = app;
+    }
+
+    public attach(): void {
+        window.addEventListener('popstate', this.onChange);
+        window.addEventListener('hashchange', this.onChange);
+    }
+
+    public detach(): void {
+        window.removeEventListener('popstate', this.onChange);
+        window.removeEventListener('hashchange', this.onChange);
+    }
+
+    /**
+     * Get the page index from the url
+     *
+     * @returns {number} Page index or null if the url has no valid page
+     */
+    public getPage(): number {
+        const value = this.getParams().get(this.app.getSettings().urlParam);
+        if (value === null) return null;
+
+        const page = parseInt(value, 10);
+
+        return isNaN(page) || page < 1 ? null : page - 1;
+    }
+
+    /**
+     * Write the current page to the url
+     *
+     * @param {number} page - Page index
+     */
+    public update(page: number): void {
+        if (this.isCurrentPage(this.getPage())) {
+            this.isUpdated = true;
+            return;
+        }
+
+        const setting = this.app.getSettings();
+        const params = this.getParams();
+        params.set(setting.urlParam, String(page + 1));
+
+        const url = '#' + params.toString();
+        const now = Date.now();
+
+        // The first page replaces the entry of the opened url
+        if (
+            !this.isUpdated ||
+            setting.urlReplaceState ||
+            now - this.lastUpdateTime < setting.urlCoalesceTime
+        ) {
+            window.history.replaceState(window.history.state, '', url);
+        } else {
+            window.history.pushState(null, '', url);
+        }
+
+        this.isUpdated = true;
+        this.lastUpdateTime = now;
+    }
+
+    private getParams(): URLSearchParams {
+        return new URLSearchParams(window.location.hash.slice(1));
+    }
+
+    /**
+     * Check if the page is shown in the current spread
+     *
+     * @param {number} page - Page index
+     */
+    private isCurrentPage(page: number): boolean {
+        if (page === null) return false;
+
+        const pages = this.app.getPageCollection();
+
+        return pages.getSpreadIndexByPage(page) === pages.getCurrentSpreadIndex();
+    }
+
+    private onChange = (): void => {
+        const page = this.getPage();
+        if (page === null || page === this.targetPage || this.isCurrentPage(page)) return;
+
+        this.targetPage = page;
+        void this.app.flip(page).then(() => {
+            this.targetPage = null;
+        });
+    };
+}
@@ -1,3 +1,6 @@
+import { Chapter } from './Outline/Outline';
+import { StorageAdapter } from './Storage/StorageAdapter';
+
 /**
  * Book size calculation type
  */
@@ -8,6 +11,99 @@ export enum SizeType {
     STRETCH = 'stretch',
 }
 
+/**
+ * Reading direction of the book
+ */
+export enum ReadingDirection {
+    /** Left-to-right: the book opens from the right side */
+    LTR = 'ltr',
+    /** Right-to-left (Arabic, Hebrew, manga): the book opens from the left side */
+    RTL = 'rtl',
+}
+
+/**
+ * Binding edge of the book
+ */
+export enum Binding {
+    /** Vertical spine, pages are turned to the side */
+    LEFT = 'left',
+    /** Horizontal spine (wall calendars, notepads), pages are turned upward */
+    TOP = 'top',
+}
+
+/**
+ * Wheel axis used to page flipping
+ */
+export enum WheelAxis {
+    /** Horizontal scrolling, two-finger trackpad swipe */
+    HORIZONTAL = 'horizontal',
+    /** Vertical scrolling, mouse wheel */
+    VERTICAL = 'vertical',
+    /** Dominant axis of each wheel event */
+    BOTH = 'both',
+}
+
+/**
+ * Layout of the thumbnails in the navigator
+ */
+export enum NavigatorLayout {
+    /** Scrollable row */
+    STRIP = 'strip',
+    /** Wrapped rows */
+    GRID = 'grid',
+}
+
+/**
+ * Built-in storages of the reading state
+ */
+export enum StorageType {
+    /** window.localStorage */
+    LOCAL = 'local',
+    /** window.sessionStorage */
+    SESSION = 'session',
+    /** Memory, until the page is reloaded */
+    MEMORY = 'memory',
+}
+
+/**
+ * Keys (KeyboardEvent.key values) bound to the navigation actions
+ */
+export interface KeyBindings {
+    /** Turn to the next page */
+    next: string[];
+    /** Turn to the previous page */
+    prev: string[];
+    /** Turn to the first page */
+    first: string[];
+    /** Turn to the last page */
+    last: string[];
+    /** Turn to the page number typed before */
+    goTo: string[];
+}
+
+/**
+ * Page area passed to the canvas placeholder renderer
+ */
+export interface PlaceholderRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Drawing of the page whose image is not loaded (Canvas mode)
+ *
+ * @param {CanvasRenderingContext2D} ctx - Canvas context, the page is upright in the top binding mode too
+ * @param {PlaceholderRect} rect - Page area
+ * @param {number} elapsed - Time since the placeholder is shown (ms), for the animation
+ */
+export type CanvasPlaceholderRenderer = (
+    ctx: CanvasRenderingContext2D,
+    rect: PlaceholderRect,
+    elapsed: number,
+) => void;
+
 /**
  * Configuration object
  */
@@ -39,6 +135,17 @@ export interface FlipSetting {
     /** Shadow intensity (1: max intensity, 0: hidden shadows) */
     maxShadowOpacity: number;
 
+    /** Background of the canvas around the book (Canvas mode). 'transparent' shows the page behind */
+    canvasBackground: string;
+    /** Color of the paper behind the transparent images (Canvas mode). Null: no paper */
+    paperColor: string;
+    /** Color of the spine shadow (Canvas mode) */
+    spineShadowColor: string;
+    /** Width of the spine shadow relative to the book width (Canvas mode) */
+    spineShadowWidth: number;
+    /** Intensity of the spine shadow (1: max intensity, 0: hidden shadow) */
+    spineShadowOpacity: number;
+
     /** If this value is true, the first and the last pages will be marked as hard and will be shown in single page mode */
     showCover: boolean;
     /** Disable content scrolling when touching a book on mobile devices */
@@ -72,6 +179,144 @@ export interface FlipSetting {
 
     /** 가상화 사용시 실제 데이터의 총 페이지 수 */
     totalVirtualPages?: number;
+
+    /** Fill the page element (slot) with the content of the virtual page. Called when the slot gets another virtual page */
+    renderSlot: (slot: HTMLElement, virtualIndex: number) => void;
+
+    /** Identifier of the book. If set, the current page, usePortrait and zoom are saved and restored on loading */
+    bookId: string;
+
+    /** Storage of the reading state: built-in storage type or a custom adapter */
+    storageAdapter: StorageType | StorageAdapter;
+
+    /** Lifetime of the saved reading state (ms). 0: never expires */
+    storageExpiry: number;
+
+    /** If this value is true, the current page is kept in the url hash and the browser history */
+    syncUrl: boolean;
+
+    /** Name of the url hash parameter with the page number (starts at 1) */
+    urlParam: string;
+
+    /** If this value is true, turns replace the history entry instead of adding a new one */
+    urlReplaceState: boolean;
+
+    /** Turns made sooner than this time (ms) after the previous one replace its history entry */
+    urlCoalesceTime: number;
+
+    /** Number of the retries of a failed image loading (Canvas mode) */
+    imageRetryCount: number;
+
+    /** Delay before the first retry of a failed image loading, doubled for each next one (ms) */
+    imageRetryDelay: number;
+
+    /** Path to the image shown instead of a failed one. Null: an error placeholder is drawn */
+    fallbackImage: string;
+
+    /** Maximum devicePixelRatio of the canvas (Canvas mode). Lower values draw faster on HiDPI screens */
+    maxPixelRatio: number;
+
+    /** Delay of the layout update after the root element is resized (ms) */
+    resizeDebounceTime: number;
+
+    /** Inactivity time before the cursor and the corner folds are hidden in the presentation mode (ms) */
+    presentationIdleTime: number;
+
+    /** If this value is true, the navigation toolbar is shown under the book */
+    showControls: boolean;
+
+    /** If this value is true, the thumbnails of the spreads are shown after the book */
+    showNavigator: boolean;
+
+    /** Layout of the navigator thumbnails */
+    navigatorLayout: NavigatorLayout;
+
+    /** Height of the navigator thumbnails (px) */
+    navigatorThumbSize: number;
+
+    /** If this value is true, clicking a thumbnail turns to its spread with animation */
+    navigatorAnimated: boolean;
+
+    /**
+     * Look of the pages whose content is not ready: drawing callback on the Canvas mode,
+     * template element on the HTML mode. Null: the default loader
+     */
+    placeholderRenderer: CanvasPlaceholderRenderer | HTMLTemplateElement;
+
+    /** Number of spreads around the current one with the loaded content (pages loaded from a provider) */
+    lazyLoadWindow: number;
+
+    /** If this value is true, turning requests made during a flipping animation are played in order */
+    useFlipQueue: boolean;
+
+    /** Maximum number of turning requests waiting in the queue. Extra requests are cancelled */
+    flipQueueSize: number;
+
+    /** Flipping time multiplier for turnings started from the queue (0.5: twice as fast) */
+    flipQueueSpeedFactor: number;
+
+    /** If this value is true, the last spread is followed by the first one: the book is turned around in both directions */
+    loop: boolean;
+
+    /** If this value is true, flip(page) to a distant page plays a fast riffle of the intermediate sheets (landscape mode) */
+    riffleFlip: boolean;
+
+    /** Maximum number of intermediate sheets shown in the riffle animation */
+    riffleSheets: number;
+
+    /** Flipping time of one riffle sheet (ms) */
+    riffleSheetTime: number;
+
+    /** Overlapping of the neighboring riffle sheets (0: one after another, 0.9: almost together) */
+    riffleOverlap: number;
+
+    /** Table of contents. If empty, chapters are read from the data-chapter and data-title attributes of the HTML pages */
+    outline: Chapter[];
+
+    /** Reading direction. In the right-to-left mode the first page is on the right of each spread */
+    direction: ReadingDirection;
+
+    /** Binding edge. In the top binding mode the spreads are stacked vertically and the corners are left and right */
+    binding: Binding;
+
+    /** Using keyboard to page flipping, when the book has focus */
+    useKeyboard: boolean;
+
+    /** Keys bound to the navigation actions. Missing actions keep the default keys */
+    keyBindings: KeyBindings;
+
+    /** Using mouse wheel and trackpad gestures to page flipping */
+    useWheel: boolean;
+
+    /**
+     * Wheel axis used to page flipping, relative to the book (the horizontal axis is vertical in the top binding mode).
+     * Scrolling on another axis is not prevented, the vertical page scrolling is kept with mobileScrollSupport
+     */
+    wheelAxis: WheelAxis;
+
+    /** Wheel delta multiplier (2: turns twice as easily) */
+    wheelSensitivity: number;
+
+    /** If this value is true, the wheel turns the pages in the opposite direction */
+    wheelInvert: boolean;
+
+    /** Minimum time between two turnings by the wheel (ms) */
+    wheelCooldown: number;
+
+    /** If this value is true, the wheel folds the page following the gesture instead of turning it at once */
+    wheelFold: boolean;
+
+    /** Using pinch, ctrl+wheel and double tap / double click to zoom the book. Flipping is suspended while zoomed in */
+    useZoom: boolean;
+
+    /** Minimum zoom level */
+    minZoom: number;
+
+    /** Maximum zoom level */
+    maxZoom: number;
+
+    /** Zoom level set by the double tap / double click */
+    zoomStep: number;
 }
 
 export class Settings {
@@ -90,6 +335,11 @@ export class Settings {
         startZIndex: 0,
         autoSize: true,
         maxShadowOpacity: 1,
+        canvasBackground: 'white',
+        paperColor: 'white',
+        spineShadowColor: '#000000',
+        spineShadowWidth: 0.05,
+        spineShadowOpacity: 1,
         showCover: false,
         mobileScrollSupport: true,
         swipeDistance: 30,
@@ -102,6 +352,56 @@ export class Settings {
         swipeExcludeSelectors: [], // Default empty array for swipe exclusion selectors
         useBlankPage: false, // 기본값: 기존 동작 유지
         totalVirtualPages: undefined,
+        renderSlot: null,
+        bookId: null,
+        storageAdapter: StorageType.MEMORY,
+        storageExpiry: 0,
+        syncUrl: false,
+        urlParam: 'page',
+        urlReplaceState: false,
+        urlCoalesceTime: 500,
+        imageRetryCount: 2,
+        imageRetryDelay: 1000,
+        fallbackImage: null,
+        maxPixelRatio: 2,
+        resizeDebounceTime: 100,
+        presentationIdleTime: 3000,
+        showControls: false,
+        showNavigator: false,
+        navigatorLayout: NavigatorLayout.STRIP,
+        navigatorThumbSize: 100,
+        navigatorAnimated: true,
+        placeholderRenderer: null,
+        lazyLoadWindow: 2,
+        useFlipQueue: false,
+        flipQueueSize: 5,
+        flipQueueSpeedFactor: 1,
+        loop: false,
+        riffleFlip: false,
+        riffleSheets: 5,
+        riffleSheetTime: 400,
+        riffleOverlap: 0.7,
+        outline: [],
+        direction: ReadingDirection.LTR,
+        binding: Binding.LEFT,
+        useKeyboard: false,
+        keyBindings: {
+            next: ['ArrowRight', 'PageDown'],
+            prev: ['ArrowLeft', 'PageUp'],
+            first: ['Home'],
+            last: ['End'],
+            goTo: ['Enter'],
+        },
+        useWheel: false,
+        wheelAxis: WheelAxis.HORIZONTAL,
+        wheelSensitivity: 1,
+        wheelInvert: false,
+        wheelCooldown: 500,
+        wheelFold: false,
+        useZoom: false,
+        minZoom: 1,
+        maxZoom: 3,
+        zoomStep: 2,
     };
 
     /**
@@ -115,6 +415,8 @@ export class Settings {
         const result = { ...this._default }; // 🎯 spread operator로 복사
         Object.assign(result, userSetting);
 
+        result.keyBindings = { ...this._default.keyBindings, ...userSetting.keyBindings };
+
         if (result.size !== SizeType.STRETCH && result.size !== SizeType.FIXED)
             throw new Error('Invalid size type. Available only "fixed" and "stretch" value');
 
@@ -122,6 +424,64 @@ export class Settings {
 
         if (result.flippingTime <= 0) throw new Error('Invalid flipping time');
 
+        if (result.flipQueueSpeedFactor <= 0) throw new Error('Invalid flip queue speed factor');
+
+        if (result.direction !== ReadingDirection.LTR && result.direction !== ReadingDirection.RTL)
+            throw new Error('Invalid direction. Available only "ltr" and "rtl" value');
+
+        if (result.binding !== Binding.LEFT && result.binding !== Binding.TOP)
+            throw new Error('Invalid binding. Available only "left" and "top" value');
+
+        if (result.direction === ReadingDirection.RTL && result.totalVirtualPages)
+            throw new Error('Right-to-left direction is not available with virtual pages');
+
+        if (result.storageExpiry < 0) throw new Error('Invalid storage expiry');
+
+        if (result.urlParam === '') throw new Error('Invalid url param');
+
+        const placeholder = result.placeholderRenderer;
+        if (
+            placeholder !== null &&
+            typeof placeholder !== 'function' &&
+            !(placeholder instanceof HTMLTemplateElement)
+        )
+            throw new Error('Invalid placeholder renderer');
+
+        if (result.spineShadowWidth < 0) throw new Error('Invalid spine shadow width');
+
+        if (result.spineShadowOpacity < 0 || result.spineShadowOpacity > 1)
+            throw new Error('Invalid spine shadow opacity');
+
+        if (result.imageRetryCount < 0) throw new Error('Invalid image retry count');
+
+        if (result.imageRetryDelay < 0) throw new Error('Invalid image retry delay');
+
+        if (result.maxPixelRatio <= 0) throw new Error('Invalid max pixel ratio');
+
+        if (result.resizeDebounceTime < 0) throw new Error('Invalid resize debounce time');
+
+        if (result.presentationIdleTime <= 0) throw new Error('Invalid presentation idle time');
+
+        if (result.navigatorThumbSize <= 0) throw new Error('Invalid navigator thumbnail size');
+
+        if (result.showNavigator && result.totalVirtualPages)
+            throw new Error('Navigator is not available with virtual pages');
+
+        if (result.lazyLoadWindow < 0) throw new Error('Invalid lazy load window');
+
+        if (result.loop && result.totalVirtualPages)
+            throw new Error('Loop mode is not available with virtual pages');
+
+        if (result.wheelSensitivity <= 0) throw new Error('Invalid wheel sensitivity');
+
+        if (result.minZoom <= 0 || result.maxZoom < result.minZoom)
+            throw new Error('Invalid zoom range');
+
+        if (result.riffleSheetTime <= 0) throw new Error('Invalid riffle sheet time');
+
+        if (result.riffleOverlap < 0 || result.riffleOverlap >= 1)
+            throw new Error('Invalid riffle overlap. Available only values from 0 to 1');
+
         if (result.size === SizeType.STRETCH) {
             if (result.minWidth <= 0) result.minWidth = 100;
 
@@ -0,0 +1,21 @@
+import { StorageAdapter } from './StorageAdapter';
+
+/**
+ * Storage adapter keeping the values in memory until the page is reloaded.
+ * Values are shared by all books, so a book created again restores its state
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+    private static readonly values = new Map<string, string>();
+
+    public get(key: string): string | null {
+        return MemoryStorageAdapter.values.get(key) ?? null;
+    }
+
+    public set(key: string, value: string): void {
+        MemoryStorageAdapter.values.set(key, value);
+    }
+
+    public remove(key: string): void {
+        MemoryStorageAdapter.values.delete(key);
+    }
+}
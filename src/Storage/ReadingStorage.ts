@@ -0,0 +1,109 @@
+import { PageFlip } from '../PageFlip';
+import { FlipSetting, StorageType } from '../Settings';
+import { StorageAdapter } from './StorageAdapter';
+import { WebStorageAdapter } from './WebStorageAdapter';
+import { MemoryStorageAdapter } from './MemoryStorageAdapter';
+
+/**
+ * Saved reading state of the book
+ */
+export interface ReadingState {
+    /** Current page index */
+    page: number;
+    /** Zoom level */
+    zoom: number;
+    /** Saving time (ms) */
+    savedAt: number;
+}
+
+/**
+ * Class saving and restoring the reading state of the book through a storage adapter
+ */
+export class ReadingStorage {
+    private readonly app: PageFlip;
+    private readonly adapter: StorageAdapter;
+
+    private readonly key: string;
+    private readonly expiry: number;
+
+    /**
+     * @constructor
+     *
+     * @param {PageFlip} app - PageFlip instanse
+     * @param {FlipSetting} setting - Configuration object with the bookId
+     */
+    constructor(app: PageFlip, setting: FlipSetting) {
+        this.app = app;
+
+        this.key = 'stPageFlip:' + setting.bookId;
+        this.expiry = setting.storageExpiry;
+        this.adapter = ReadingStorage.createAdapter(setting.storageAdapter);
+    }
+
+    private static createAdapter(type: StorageType | StorageAdapter): StorageAdapter {
+        if (typeof type !== 'string') return type;
+
+        try {
+            switch (type) {
+                case StorageType.LOCAL:
+                    return new WebStorageAdapter(window.localStorage);
+
+                case StorageType.SESSION:
+                    return new WebStorageAdapter(window.sessionStorage);
+            }
+        } catch (e) {
+            // Web storage is not accessible (privacy mode, sandboxed iframe)
+        }
+
+        return new MemoryStorageAdapter();
+    }
+
+    /**
+     * Load the saved state
+     *
+     * @returns {Promise<ReadingState>} Saved state or null if there is no state, it is expired or the storage is not available
+     */
+    public load(): Promise<ReadingState> {
+        return new Promise<string>((resolve) => resolve(this.adapter.get(this.key)))
+            .then((value) => {
+                if (value === null || value === undefined) return null;
+
+                const state = JSON.parse(value) as ReadingState;
+
+                if (this.expiry > 0 && Date.now() - state.savedAt > this.expiry) {
+                    this.remove();
+                    return null;
+                }
+
+                return state;
+            })
+            .catch((): ReadingState => null);
+    }
+
+    /**
+     * Save the current state of the book
+     */
+    public save(): void {
+        const state: ReadingState = {
+            page: this.app.getCurrentPageIndex(),
+            zoom: this.app.getZoom(),
+            savedAt: Date.now(),
+        };
+
+        const saving = new Promise((resolve) =>
+            resolve(this.adapter.set(this.key, JSON.stringify(state))),
+        );
+
+        // The reading state is not important enough to break the book
+        void saving.catch(() => undefined);
+    }
+
+    /**
+     * Remove the saved state
+     */
+    public remove(): void {
+        const removing = new Promise((resolve) => resolve(this.adapter.remove(this.key)));
+
+        void removing.catch(() => undefined);
+    }
+}
@@ -0,0 +1,28 @@
+/**
+ * Key-value storage of the reading state. Methods can be async (return a promise) for remote backends
+ */
+export interface StorageAdapter {
+    /**
+     * Get the stored value
+     *
+     * @param {string} key
+     *
+     * @returns Value or null if there is no value for the key
+     */
+    get(key: string): string | null | Promise<string | null>;
+
+    /**
+     * Store the value
+     *
+     * @param {string} key
+     * @param {string} value
+     */
+    set(key: string, value: string): void | Promise<void>;
+
+    /**
+     * Remove the value
+     *
+     * @param {string} key
+     */
+    remove(key: string): void | Promise<void>;
+}
@@ -0,0 +1,29 @@
+import { StorageAdapter } from './StorageAdapter';
+
+/**
+ * Storage adapter for the Web Storage API (localStorage, sessionStorage)
+ */
+export class WebStorageAdapter implements StorageAdapter {
+    private readonly storage: Storage;
+
+    /**
+     * @constructor
+     *
+     * @param {Storage} storage - window.localStorage or window.sessionStorage
+     */
+    constructor(storage: Storage) {
+        this.storage = storage;
+    }
+
+    public get(key: string): string | null {
+        return this.storage.getItem(key);
+    }
+
+    public set(key: string, value: string): void {
+        this.storage.setItem(key, value);
+    }
+
+    public remove(key: string): void {
+        this.storage.removeItem(key);
+    }
+}
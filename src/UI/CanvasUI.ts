@@ -8,6 +8,11 @@ import {FlipSetting} from "../Settings";
 export class CanvasUI extends UI {
     private readonly canvas: HTMLCanvasElement;
 
+    /** Canvas pixels per CSS pixel */
+    private pixelRatio = 1;
+    /** Media query matching the current devicePixelRatio, to detect its changes */
+    private pixelRatioQuery: MediaQueryList = null;
+
     constructor(inBlock: HTMLElement, app: PageFlip, setting: FlipSetting) {
         super(inBlock, app, setting);
 
@@ -26,10 +31,54 @@ export class CanvasUI extends UI {
         const width = parseInt(cs.getPropertyValue('width'), 10);
         const height = parseInt(cs.getPropertyValue('height'), 10);
 
-        this.canvas.width = width;
-        this.canvas.height = height;
+        // The backing store has the device resolution, the book is drawn in CSS pixels
+        this.pixelRatio = Math.min(
+            window.devicePixelRatio || 1,
+            this.app.getSettings().maxPixelRatio,
+        );
+
+        this.canvas.width = Math.round(width * this.pixelRatio);
+        this.canvas.height = Math.round(height * this.pixelRatio);
+    }
+
+    /**
+     * Get the number of canvas pixels per CSS pixel
+     */
+    public getPixelRatio(): number {
+        return this.pixelRatio;
+    }
+
+    protected setHandlers(): void {
+        super.setHandlers();
+        this.watchPixelRatio();
+    }
+
+    protected removeHandlers(): void {
+        super.removeHandlers();
+
+        if (this.pixelRatioQuery !== null)
+            this.pixelRatioQuery.removeEventListener('change', this.onPixelRatioChange);
+        this.pixelRatioQuery = null;
     }
 
+    /**
+     * Listen to the devicePixelRatio changes (browser zoom, moving the window to another monitor)
+     */
+    private watchPixelRatio(): void {
+        if (this.pixelRatioQuery !== null)
+            this.pixelRatioQuery.removeEventListener('change', this.onPixelRatioChange);
+
+        this.pixelRatioQuery = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+        this.pixelRatioQuery.addEventListener('change', this.onPixelRatioChange);
+    }
+
+    private onPixelRatioChange = (): void => {
+        this.watchPixelRatio();
+        this.update();
+
+        this.app.updatePixelRatio();
+    };
+
     /**
      * Get canvas element
      */
@@ -0,0 +1,183 @@
+import { PageFlip } from '../PageFlip';
+import { Unsubscribe } from '../Event/EventObject';
+import { FlippingState } from '../Flip/Flip';
+
+/**
+ * Navigation toolbar: first/prev/next/last buttons, page counter, slider and fullscreen toggle
+ */
+export class Controls {
+    private readonly app: PageFlip;
+    private readonly element: HTMLElement;
+
+    private readonly firstButton: HTMLButtonElement;
+    private readonly prevButton: HTMLButtonElement;
+    private readonly nextButton: HTMLButtonElement;
+    private readonly lastButton: HTMLButtonElement;
+    private readonly fullscreenButton: HTMLButtonElement;
+    private readonly label: HTMLElement;
+    private readonly slider: HTMLInputElement;
+
+    private readonly unsubscribers: Unsubscribe[];
+
+    /**
+     * @constructor
+     *
+     * @param {HTMLElement} inBlock - Root HTML Element of the book (stf__parent)
+     * @param {PageFlip} app - PageFlip instanse
+     */
+    constructor(inBlock: HTMLElement, app: PageFlip) {
+        this.app = app;
+
+        this.element = document.createElement('div');
+        this.element.className = 'stf__controls';
+        if (app.isRtl()) this.element.classList.add('--rtl');
+
+        this.firstButton = this.createButton('--first', '«', 'First page', () => this.flip(0));
+        this.prevButton = this.createButton('--prev', '‹', 'Previous page', () => {
+            void this.app.flipPrev();
+        });
+
+        this.slider = document.createElement('input');
+        this.slider.type = 'range';
+        this.slider.className = 'stf__controlsSlider';
+        this.slider.min = '0';
+        this.slider.step = '1';
+        this.slider.setAttribute('aria-label', 'Page');
+        this.slider.addEventListener('input', this.onSliderInput);
+        this.slider.addEventListener('change', this.onSliderChange);
+
+        this.label = document.createElement('span');
+        this.label.className = 'stf__controlsLabel';
+        this.label.setAttribute('aria-live', 'polite');
+
+        this.nextButton = this.createButton('--next', '›', 'Next page', () => {
+            void this.app.flipNext();
+        });
+        this.lastButton = this.createButton('--last', '»', 'Last page', () =>
+            this.flip(this.app.getVirtualPageCount() - 1),
+        );
+        this.fullscreenButton = this.createButton(
+            '--fullscreen',
+            '⛶',
+            'Fullscreen',
+            this.toggleFullscreen,
+        );
+        if (!document.fullscreenEnabled) this.fullscreenButton.hidden = true;
+
+        this.element.append(
+            this.firstButton,
+            this.prevButton,
+            this.slider,
+            this.label,
+            this.nextButton,
+            this.lastButton,
+            this.fullscreenButton,
+        );
+
+        // The book gestures (zoom, pan, wheel flipping) are not started from the toolbar
+        for (const type of ['mousedown', 'touchstart', 'dblclick', 'wheel'])
+            this.element.addEventListener(type, (e) => e.stopPropagation());
+
+        inBlock.appendChild(this.element);
+
+        const update = (): void => this.update();
+
+        this.unsubscribers = [
+            app.subscribe('init', update),
+            app.subscribe('update', update),
+            app.subscribe('flip', update),
+            app.subscribe('changeState', update),
+            app.subscribe('changeOrientation', update),
+        ];
+    }
+
+    /**
+     * Remove the toolbar element and the event handlers
+     */
+    public destroy(): void {
+        for (const unsubscribe of this.unsubscribers) unsubscribe();
+
+        this.element.remove();
+    }
+
+    /**
+     * Update the counter and the state of the buttons
+     */
+    public update(): void {
+        const pages = this.app.getPageCollection();
+        const current = pages.getCurrentSpreadIndex();
+        const spreadPages = pages.getSpreadPages(current);
+        const pageCount = this.app.getVirtualPageCount();
+
+        const isFlipping = this.app.getState() === FlippingState.FLIPPING;
+        const isLoop = this.app.getSettings().loop;
+        const isFirst = !isLoop && spreadPages.includes(0);
+        const isLast = !isLoop && spreadPages.includes(pageCount - 1);
+
+        this.firstButton.disabled = isFlipping || spreadPages.includes(0);
+        this.prevButton.disabled = isFlipping || isFirst;
+        this.nextButton.disabled = isFlipping || isLast;
+        this.lastButton.disabled = isFlipping || spreadPages.includes(pageCount - 1);
+        this.slider.disabled = isFlipping;
+
+        this.slider.max = String(pages.getSpreadCount() - 1);
+        this.slider.value = String(current);
+
+        this.setLabel(spreadPages);
+    }
+
+    /**
+     * Show the pages of the spread as "4–5 / 120"
+     *
+     * @param {number[]} spreadPages - Page indexes of the spread
+     */
+    private setLabel(spreadPages: number[]): void {
+        const first = Math.min(...spreadPages) + 1;
+        const last = Math.max(...spreadPages) + 1;
+
+        this.label.textContent =
+            (first === last ? String(first) : first + '–' + last) +
+            ' / ' +
+            this.app.getVirtualPageCount();
+    }
+
+    private createButton(
+        modifier: string,
+        text: string,
+        title: string,
+        onClick: () => void,
+    ): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'stf__controlsButton ' + modifier;
+        button.textContent = text;
+        button.title = title;
+        button.setAttribute('aria-label', title);
+        button.addEventListener('click', onClick);
+
+        return button;
+    }
+
+    private flip(page: number): void {
+        void this.app.flip(page);
+    }
+
+    private toggleFullscreen = (): void => {
+        const toggling = this.app.isFullscreen()
+            ? this.app.exitFullscreen()
+            : this.app.enterFullscreen();
+
+        // The browser can deny fullscreen (permissions policy, iframe without allowfullscreen)
+        void toggling.catch(() => undefined);
+    };
+
+    private onSliderInput = (): void => {
+        this.setLabel(this.app.getPageCollection().getSpreadPages(Number(this.slider.value)));
+    };
+
+    private onSliderChange = (): void => {
+        const spreadPages = this.app.getPageCollection().getSpreadPages(Number(this.slider.value));
+
+        this.app.turnToPage(Math.min(...spreadPages));
+    };
+}
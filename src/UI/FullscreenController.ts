@@ -0,0 +1,128 @@
+import { PageFlip } from '../PageFlip';
+
+/**
+ * Fullscreen of the root block. In the presentation mode the cursor and the corner folds are hidden after inactivity
+ */
+export class FullscreenController {
+    private readonly element: HTMLElement;
+    private readonly app: PageFlip;
+
+    private isPresentation = false;
+    private idle = false;
+    private idleTimer: ReturnType<typeof setTimeout> = null;
+
+    /**
+     * @constructor
+     *
+     * @param {HTMLElement} element - Root element shown in fullscreen (stf__parent)
+     * @param {PageFlip} app - PageFlip instanse
+     */
+    constructor(element: HTMLElement, app: PageFlip) {
+        this.element = element;
+        this.app = app;
+    }
+
+    public attach(): void {
+        document.addEventListener('fullscreenchange', this.onFullscreenChange);
+        this.element.addEventListener('mousemove', this.onActivity);
+        this.element.addEventListener('touchstart', this.onActivity);
+        this.element.addEventListener('keydown', this.onActivity);
+    }
+
+    public detach(): void {
+        document.removeEventListener('fullscreenchange', this.onFullscreenChange);
+        this.element.removeEventListener('mousemove', this.onActivity);
+        this.element.removeEventListener('touchstart', this.onActivity);
+        this.element.removeEventListener('keydown', this.onActivity);
+    }
+
+    /**
+     * Check if the book is shown in fullscreen
+     */
+    public isActive(): boolean {
+        return document.fullscreenElement === this.element;
+    }
+
+    /**
+     * Check if the presentation is idle: the cursor and the corner folds are hidden
+     */
+    public isIdle(): boolean {
+        return this.idle;
+    }
+
+    /**
+     * Show the book in fullscreen
+     *
+     * @param {boolean} isPresentation - Hide the cursor and the corner folds after inactivity
+     */
+    public enter(isPresentation: boolean): Promise<void> {
+        if (!document.fullscreenEnabled)
+            return Promise.reject(new Error('Fullscreen is not supported'));
+
+        this.isPresentation = isPresentation;
+
+        if (this.isActive()) {
+            this.updatePresentation();
+            return Promise.resolve();
+        }
+
+        return this.element.requestFullscreen();
+    }
+
+    /**
+     * Leave fullscreen
+     */
+    public exit(): Promise<void> {
+        if (!this.isActive()) return Promise.resolve();
+
+        return document.exitFullscreen();
+    }
+
+    private updatePresentation(): void {
+        const isPresentation = this.isPresentation && this.isActive();
+
+        this.element.classList.toggle('--presentation', isPresentation);
+
+        if (isPresentation) this.resetIdleTimer();
+        else this.stopIdleTimer();
+    }
+
+    private resetIdleTimer(): void {
+        this.stopIdleTimer();
+
+        this.idleTimer = setTimeout(
+            () => this.setIdle(true),
+            this.app.getSettings().presentationIdleTime,
+        );
+    }
+
+    private stopIdleTimer(): void {
+        if (this.idleTimer !== null) clearTimeout(this.idleTimer);
+
+        this.idleTimer = null;
+        this.setIdle(false);
+    }
+
+    private setIdle(idle: boolean): void {
+        this.idle = idle;
+        this.element.classList.toggle('--idle', idle);
+
+        if (idle) this.app.getFlipController().hideCorner();
+    }
+
+    private onActivity = (): void => {
+        if (this.isPresentation && this.isActive()) this.resetIdleTimer();
+    };
+
+    private onFullscreenChange = (): void => {
+        const isActive = this.isActive();
+
+        // The book stays in the normal mode after leaving fullscreen
+        if (!isActive) this.isPresentation = false;
+
+        this.element.classList.toggle('--fullscreen', isActive);
+        this.updatePresentation();
+
+        this.app.updateFullscreen(isActive);
+    };
+}
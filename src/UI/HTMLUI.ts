@@ -53,36 +53,71 @@ export class HTMLUI extends UI {
         this.setHandlers();
     }
 
+    /**
+     * Add page elements to the book
+     *
+     * @param {HTMLElement[]} items - New pages as HTML Element
+     */
+    public addItems(items: HTMLElement[]): void {
+        for (const item of items) {
+            this.distElement.appendChild(item);
+        }
+        this.items = [...Array.from(this.items), ...items];
+    }
+
+    /**
+     * Remove page elements from the book
+     *
+     * @param {HTMLElement[]} items - Removed pages as HTML Element
+     */
+    public removeItems(items: HTMLElement[]): void {
+        for (const item of items) {
+            item.remove();
+        }
+        this.items = Array.from(this.items).filter((item) => !items.includes(item));
+    }
+
     public update(): void {
         this.app.getRender().update();
     }
 
     /**
      * 애니메이션 없이 바로 첫 페이지를 중앙에 위치시킴
+     *
+     * @param {boolean} isLeftPage - Center the single page on the left side (back cover, rtl front cover)
      */
-    public setInitialCenterPosition(): void {
-        const width = this.distElement.clientWidth;
+    public setInitialCenterPosition(isLeftPage = false): void {
         this.distElement.style.transition = 'none'; // 애니메이션 제거
-        this.distElement.style.transform = `translateX(-${width / 4}px)`;
+        this.distElement.style.transform = this.getCenterTransform(isLeftPage ? 1 : -1);
     }
 
     public firstPageCenter(): void {
-        const width = this.distElement.clientWidth;
         const animationTime = this.app.getSettings().flippingTime;
         this.distElement.style.transition = `transform ${animationTime}ms ease-out`;
-        this.distElement.style.transform = `translateX(-${width / 4}px)`;
+        this.distElement.style.transform = this.getCenterTransform(-1);
     }
 
     public firstPageEndCenter(): void {
-        const width = this.distElement.clientWidth;
         const animationTime = this.app.getSettings().flippingTime;
         this.distElement.style.transition = `transform ${animationTime}ms ease-out`;
-        this.distElement.style.transform = `translateX(${width / 4}px)`;
+        this.distElement.style.transform = this.getCenterTransform(1);
     }
 
     public firstPageCenterReverse(): void {
         const animationTime = this.app.getSettings().flippingTime;
         this.distElement.style.transition = `transform ${animationTime}ms ease-out`;
-        this.distElement.style.transform = `translateX(0px)`;
+        this.distElement.style.transform = this.getCenterTransform(0);
+    }
+
+    /**
+     * Css transform shifting the book by a quarter of its size across the spine
+     *
+     * @param {number} k - Shift direction: -1 (single right page), 1 (single left page), 0 (no shift)
+     */
+    private getCenterTransform(k: number): string {
+        if (this.app.getRender().isTopBinding())
+            return `translateY(${(k * this.distElement.clientHeight) / 4}px)`;
+
+        return `translateX(${(k * this.distElement.clientWidth) / 4}px)`;
     }
 }
@@ -0,0 +1,159 @@
+import { PageFlip } from '../PageFlip';
+import { KeyBindings } from '../Settings';
+
+/**
+ * Keyboard navigation. Listens to the keys pressed while the book has focus
+ */
+export class KeyboardController {
+    private readonly element: HTMLElement;
+    private readonly app: PageFlip;
+
+    /** Digits typed before the "goTo" key */
+    private pageNumber = '';
+    private pageNumberTimer: ReturnType<typeof setTimeout> = null;
+    private readonly pageNumberTimeout = 1500;
+
+    /**
+     * @constructor
+     *
+     * @param {HTMLElement} element - Root element receiving the focus (stf__parent)
+     * @param {PageFlip} app - PageFlip instanse
+     */
+    constructor(element: HTMLElement, app: PageFlip) {
+        this.element = element;
+        this.app = app;
+    }
+
+    /**
+     * Make the root element focusable and add the keyboard handlers
+     */
+    public attach(): void {
+        if (!this.element.hasAttribute('tabindex')) this.element.tabIndex = 0;
+
+        this.element.addEventListener('keydown', this.onKeyDown);
+        this.element.addEventListener('mousedown', this.onPointerDown);
+        this.element.addEventListener('touchstart', this.onPointerDown);
+    }
+
+    /**
+     * Remove the keyboard handlers
+     */
+    public detach(): void {
+        this.element.removeEventListener('keydown', this.onKeyDown);
+        this.element.removeEventListener('mousedown', this.onPointerDown);
+        this.element.removeEventListener('touchstart', this.onPointerDown);
+
+        this.resetPageNumber();
+    }
+
+    /**
+     * Check if the keystroke belongs to an element inside the page (input, excluded area)
+     *
+     * @param {EventTarget} target
+     */
+    private isIgnoredTarget(target: EventTarget): boolean {
+        const element = target as HTMLElement;
+        if (element === this.element) return false;
+
+        if (['input', 'textarea', 'select'].includes(element.tagName.toLowerCase())) return true;
+
+        if (element.isContentEditable) return true;
+
+        return this.app.getUI().isExcludedTarget(element);
+    }
+
+    /**
+     * Find the action bound to the key
+     *
+     * @param {string} key - KeyboardEvent.key value
+     */
+    private getAction(key: string): keyof KeyBindings {
+        const bindings = this.app.getSettings().keyBindings;
+
+        // Arrow keys follow the screen direction of flipping
+        if (this.app.getRender().isTopBinding()) {
+            if (key === 'ArrowUp') key = 'ArrowLeft';
+            else if (key === 'ArrowDown') key = 'ArrowRight';
+        }
+
+        if (this.app.isRtl()) {
+            if (key === 'ArrowLeft') key = 'ArrowRight';
+            else if (key === 'ArrowRight') key = 'ArrowLeft';
+        }
+
+        for (const action of Object.keys(bindings) as (keyof KeyBindings)[]) {
+            if (bindings[action].includes(key)) return action;
+        }
+
+        return null;
+    }
+
+    private resetPageNumber(): void {
+        clearTimeout(this.pageNumberTimer);
+
+        this.pageNumber = '';
+        this.pageNumberTimer = null;
+    }
+
+    private goToPageNumber(): boolean {
+        if (this.pageNumber === '') return false;
+
+        const page = Math.min(
+            Math.max(parseInt(this.pageNumber, 10) - 1, 0),
+            this.app.getVirtualPageCount() - 1,
+        );
+        this.resetPageNumber();
+
+        void this.app.flip(page);
+
+        return true;
+    }
+
+    private onPointerDown = (e: Event): void => {
+        // Mouse handlers prevent the default focusing, so the book is focused manually
+        if (!this.isIgnoredTarget(e.target)) this.element.focus({ preventScroll: true });
+    };
+
+    private onKeyDown = (e: KeyboardEvent): void => {
+        if (e.ctrlKey || e.altKey || e.metaKey) return;
+        if (this.isIgnoredTarget(e.target)) return;
+
+        if (/^[0-9]$/.test(e.key)) {
+            clearTimeout(this.pageNumberTimer);
+
+            this.pageNumber += e.key;
+            this.pageNumberTimer = setTimeout(() => this.resetPageNumber(), this.pageNumberTimeout);
+
+            e.preventDefault();
+            return;
+        }
+
+        const action = this.getAction(e.key);
+        if (action === null) return;
+
+        switch (action) {
+            case 'next':
+                void this.app.flipNext();
+                break;
+
+            case 'prev':
+                void this.app.flipPrev();
+                break;
+
+            case 'first':
+                void this.app.flip(0);
+                break;
+
+            case 'last':
+                void this.app.flip(this.app.getVirtualPageCount() - 1);
+                break;
+
+            case 'goTo':
+                if (!this.goToPageNumber()) return;
+                break;
+        }
+
+        this.resetPageNumber();
+        e.preventDefault();
+    };
+}
@@ -0,0 +1,197 @@
+import { PageFlip } from '../PageFlip';
+import { Unsubscribe } from '../Event/EventObject';
+import { ImagePage } from '../Page/ImagePage';
+import { HTMLPage } from '../Page/HTMLPage';
+import { Point } from '../BasicTypes';
+
+/**
+ * Overview of the book: strip or grid of the spread thumbnails placed after the book element
+ */
+export class Navigator {
+    private readonly app: PageFlip;
+    private readonly element: HTMLElement;
+
+    /** Items of the spreads */
+    private items: HTMLElement[] = [];
+    /** Thumbnails by the page index */
+    private thumbs = new Map<number, HTMLElement>();
+
+    private readonly unsubscribers: Unsubscribe[];
+
+    /**
+     * @constructor
+     *
+     * @param {HTMLElement} inBlock - Root HTML Element of the book
+     * @param {PageFlip} app - PageFlip instanse
+     */
+    constructor(inBlock: HTMLElement, app: PageFlip) {
+        this.app = app;
+
+        this.element = document.createElement('div');
+        this.element.className = 'stf__navigator --' + app.getSettings().navigatorLayout;
+        inBlock.insertAdjacentElement('afterend', this.element);
+
+        const build = (): void => this.build();
+
+        this.unsubscribers = [
+            app.subscribe('init', build),
+            app.subscribe('update', build),
+            app.subscribe('uiUpdate', build),
+            app.subscribe('changeOrientation', build),
+            app.subscribe('flip', () => this.updateCurrent()),
+            app.subscribe('pageLoad', (e) => this.updateThumb(e.data)),
+        ];
+    }
+
+    /**
+     * Remove the navigator element and the event handlers
+     */
+    public destroy(): void {
+        for (const unsubscribe of this.unsubscribers) unsubscribe();
+
+        this.element.remove();
+    }
+
+    /**
+     * Create the thumbnails of all spreads
+     */
+    public build(): void {
+        const pages = this.app.getPageCollection();
+
+        this.element.innerHTML = '';
+        this.items = [];
+        this.thumbs.clear();
+
+        for (let i = 0; i < pages.getSpreadCount(); i++) {
+            const spreadPages = pages.getSpreadPages(i);
+
+            const item = document.createElement('div');
+            item.className = 'stf__navigatorItem';
+
+            for (const pageIndex of spreadPages) {
+                const thumb = document.createElement('div');
+                thumb.className = 'stf__navigatorThumb';
+
+                this.fillThumb(thumb, pageIndex);
+                this.thumbs.set(pageIndex, thumb);
+                item.appendChild(thumb);
+            }
+
+            item.addEventListener('click', () => this.goTo(Math.min(...spreadPages)));
+
+            this.element.appendChild(item);
+            this.items.push(item);
+        }
+
+        this.updateCurrent();
+    }
+
+    /**
+     * Highlight the current spread and scroll the navigator to it
+     */
+    private updateCurrent(): void {
+        const current = this.app.getPageCollection().getCurrentSpreadIndex();
+
+        this.items.forEach((item, i) => item.classList.toggle('--current', i === current));
+
+        const item = this.items[current];
+        if (item === undefined) return;
+
+        // Only the navigator is scrolled, not the whole page
+        this.element.scrollLeft =
+            item.offsetLeft - (this.element.clientWidth - item.offsetWidth) / 2;
+        this.element.scrollTop =
+            item.offsetTop - (this.element.clientHeight - item.offsetHeight) / 2;
+    }
+
+    /**
+     * Refresh the thumbnail of the page (the page content is loaded)
+     *
+     * @param {number} pageIndex
+     */
+    private updateThumb(pageIndex: number): void {
+        const thumb = this.thumbs.get(pageIndex);
+
+        if (thumb !== undefined) this.fillThumb(thumb, pageIndex);
+    }
+
+    private goTo(page: number): void {
+        if (this.app.getSettings().navigatorAnimated) void this.app.flip(page);
+        else this.app.turnToPage(page);
+    }
+
+    /**
+     * Fill the thumbnail: loaded image on the Canvas mode; data-thumb image or scaled clone of the page on the HTML mode
+     *
+     * @param {HTMLElement} thumb - Thumbnail element
+     * @param {number} pageIndex
+     */
+    private fillThumb(thumb: HTMLElement, pageIndex: number): void {
+        const render = this.app.getRender();
+        const rect = render.getRect();
+        const pageSize = render.toScreenAxes({ x: rect.pageWidth, y: rect.height });
+
+        const height = this.app.getSettings().navigatorThumbSize;
+        const scale = pageSize.y > 0 ? height / pageSize.y : 0;
+
+        thumb.innerHTML = '';
+        thumb.style.width = pageSize.x * scale + 'px';
+        thumb.style.height = height + 'px';
+
+        const page = this.app.getPage(pageIndex);
+
+        if (page instanceof ImagePage) {
+            const src = page.getImageSrc();
+            if (src !== null) thumb.appendChild(this.createImage(src));
+        } else if (page instanceof HTMLPage) {
+            const element = page.getElement();
+            const src = element.dataset['thumb'];
+
+            if (src !== undefined) thumb.appendChild(this.createImage(src));
+            else if (scale > 0) thumb.appendChild(this.createClone(element, pageSize, scale));
+        }
+    }
+
+    private createImage(src: string): HTMLImageElement {
+        const image = document.createElement('img');
+        image.src = src;
+        image.alt = '';
+        image.draggable = false;
+
+        return image;
+    }
+
+    /**
+     * Create the scaled copy of the page. The copy is inert: no duplicate ids, no focusable or playing content
+     *
+     * @param {HTMLElement} element - Page element
+     * @param {Point} pageSize - Page size on the screen
+     * @param {number} scale - Scale of the thumbnail
+     */
+    private createClone(element: HTMLElement, pageSize: Point, scale: number): HTMLElement {
+        const clone = element.cloneNode(true) as HTMLElement;
+
+        clone.removeAttribute('id');
+        clone.querySelectorAll('[id]').forEach((item) => item.removeAttribute('id'));
+        clone.querySelectorAll('iframe, object, embed').forEach((item) => item.remove());
+        clone.querySelectorAll('audio, video').forEach((item) => item.removeAttribute('autoplay'));
+        clone
+            .querySelectorAll('a[href], area[href], button, input, select, textarea, [tabindex]')
+            .forEach((item) => item.setAttribute('tabindex', '-1'));
+
+        clone.classList.remove('stf__item', '--left', '--right', '--soft', '--hard');
+        clone.setAttribute('aria-hidden', 'true');
+        clone.setAttribute('inert', '');
+        clone.style.cssText = `
+            position: absolute;
+            left: 0;
+            top: 0;
+            width: ${pageSize.x}px;
+            height: ${pageSize.y}px;
+            transform: scale(${scale});
+            transform-origin: 0 0;
+            pointer-events: none;`;
+
+        return clone;
+    }
+}
@@ -1,8 +1,13 @@
 import { PageFlip } from '../PageFlip';
 import { Point } from '../BasicTypes';
-import { FlipSetting, SizeType } from '../Settings';
+import { Binding, FlipSetting, SizeType } from '../Settings';
 import { FlipCorner, FlippingState } from '../Flip/Flip';
 import { Orientation } from '../Render/Render';
+import { KeyboardController } from './KeyboardController';
+import { WheelController } from './WheelController';
+import { ZoomController } from './ZoomController';
+import { Controls } from './Controls';
+import { FullscreenController } from './FullscreenController';
 
 type SwipeData = {
     point: Point;
@@ -23,8 +28,25 @@ export abstract class UI {
     private readonly swipeTimeout = 250;
     private readonly swipeDistance: number;
 
+    private readonly keyboard: KeyboardController;
+    private readonly wheel: WheelController;
+    private readonly zoom: ZoomController;
+    private readonly fullscreen: FullscreenController;
+    private readonly controls: Controls = null;
+
+    /** Observer of the root element sizes. Null if ResizeObserver is not supported (window resize is used) */
+    private resizeObserver: ResizeObserver = null;
+    private resizeTimer: ReturnType<typeof setTimeout> = null;
+    /** Root element sizes of the last layout */
+    private blockSize = { width: 0, height: 0 };
+
     private onResize = (): void => {
-        this.update();
+        if (this.resizeTimer !== null) clearTimeout(this.resizeTimer);
+
+        this.resizeTimer = setTimeout(() => {
+            this.resizeTimer = null;
+            this.resize();
+        }, this.app.getSettings().resizeDebounceTime);
     };
 
     /**
@@ -45,33 +67,57 @@ export abstract class UI {
 
         this.app = app;
 
-        const k = this.app.getSettings().usePortrait ? 1 : 2;
+        // Spreads are stacked vertically in the top binding mode
+        if (setting.binding === Binding.TOP) inBlock.classList.add('--top-binding');
+
+        this.updateBlockSize();
+
+        inBlock.style.display = 'block';
+
+        this.swipeDistance = setting.swipeDistance;
+
+        this.keyboard = new KeyboardController(inBlock, app);
+        this.wheel = new WheelController(inBlock, app);
+        this.zoom = new ZoomController(inBlock, this.wrapper, app);
+        this.fullscreen = new FullscreenController(inBlock, app);
 
-        // Setting block sizes based on configuration
-        inBlock.style.minWidth = setting.minWidth * k + 'px';
-        inBlock.style.minHeight = setting.minHeight + 'px';
+        if (setting.showControls) this.controls = new Controls(inBlock, app);
+    }
+
+    /**
+     * Set the root element sizes based on configuration
+     */
+    private updateBlockSize(): void {
+        const setting = this.app.getSettings();
+        const inBlock = this.parentElement;
+
+        const k = setting.usePortrait ? 1 : 2;
+
+        const isTopBinding = setting.binding === Binding.TOP;
+        const kWidth = isTopBinding ? 1 : k;
+        const kHeight = isTopBinding ? k : 1;
+
+        inBlock.style.minWidth = setting.minWidth * kWidth + 'px';
+        inBlock.style.minHeight = setting.minHeight * kHeight + 'px';
 
         if (setting.size === SizeType.FIXED) {
-            inBlock.style.minWidth = setting.width * k + 'px';
-            inBlock.style.minHeight = setting.height + 'px';
+            inBlock.style.minWidth = setting.width * kWidth + 'px';
+            inBlock.style.minHeight = setting.height * kHeight + 'px';
         }
 
         if (setting.autoSize) {
             inBlock.style.width = '100%';
-            inBlock.style.maxWidth = setting.maxWidth * 2 + 'px';
+            inBlock.style.maxWidth = setting.maxWidth * (isTopBinding ? 1 : 2) + 'px';
         }
-
-        inBlock.style.display = 'block';
-
-        window.addEventListener('resize', this.onResize, false);
-        this.swipeDistance = setting.swipeDistance;
     }
 
     /**
      * Destructor. Remove all HTML elements and all event handlers
      */
     public destroy(): void {
-        if (this.app.getSettings().useMouseEvents) this.removeHandlers();
+        this.removeHandlers();
+
+        if (this.controls !== null) this.controls.destroy();
 
         this.distElement.remove();
         this.wrapper.remove();
@@ -100,6 +146,24 @@ export abstract class UI {
         return this.wrapper;
     }
 
+    /**
+     * Get zoom controller
+     *
+     * @returns {ZoomController}
+     */
+    public getZoom(): ZoomController {
+        return this.zoom;
+    }
+
+    /**
+     * Get fullscreen controller
+     *
+     * @returns {FullscreenController}
+     */
+    public getFullscreen(): FullscreenController {
+        return this.fullscreen;
+    }
+
     /**
      * Updates styles and sizes based on book orientation
      *
@@ -108,17 +172,23 @@ export abstract class UI {
     public setOrientationStyle(orientation: Orientation): void {
         this.wrapper.classList.remove('--portrait', '--landscape');
 
+        const setting = this.app.getSettings();
+
+        // In fullscreen the book fills the screen instead of keeping the aspect ratio of the wrapper
+        const isAutoSize = setting.autoSize && !this.fullscreen.isActive();
+        if (!isAutoSize) this.wrapper.style.paddingBottom = '';
+
         if (orientation === Orientation.PORTRAIT) {
-            if (this.app.getSettings().autoSize)
-                this.wrapper.style.paddingBottom =
-                    (this.app.getSettings().height / this.app.getSettings().width) * 100 + '%';
+            if (isAutoSize)
+                this.wrapper.style.paddingBottom = (setting.height / setting.width) * 100 + '%';
 
             this.wrapper.classList.add('--portrait');
         } else {
-            if (this.app.getSettings().autoSize)
+            if (isAutoSize)
                 this.wrapper.style.paddingBottom =
-                    (this.app.getSettings().height / (this.app.getSettings().width * 2)) * 100 +
-                    '%';
+                    (setting.binding === Binding.TOP
+                        ? ((setting.height * 2) / setting.width) * 100
+                        : (setting.height / (setting.width * 2)) * 100) + '%';
 
             this.wrapper.classList.add('--landscape');
         }
@@ -126,8 +196,36 @@ export abstract class UI {
         this.update();
     }
 
+    /**
+     * Recalculate the layout if the root element sizes are changed
+     */
+    private resize(): void {
+        const width = this.parentElement.offsetWidth;
+        const height = this.parentElement.offsetHeight;
+
+        if (width === this.blockSize.width && height === this.blockSize.height) return;
+
+        this.blockSize = { width, height };
+
+        // The flip calculated for the old sizes is completed before the new layout
+        this.app.getFlipController().finish();
+
+        this.update();
+        this.app.updateBounds(this.app.getBoundsRect());
+    }
+
     protected removeHandlers(): void {
+        if (this.resizeTimer !== null) clearTimeout(this.resizeTimer);
+        this.resizeTimer = null;
+
+        if (this.resizeObserver !== null) this.resizeObserver.disconnect();
+        this.resizeObserver = null;
+
         window.removeEventListener('resize', this.onResize);
+        this.keyboard.detach();
+        this.wheel.detach();
+        this.zoom.detach();
+        this.fullscreen.detach();
 
         this.distElement.removeEventListener('mousedown', this.onMouseDown);
         this.distElement.removeEventListener('touchstart', this.onTouchStart);
@@ -138,7 +236,23 @@ export abstract class UI {
     }
 
     protected setHandlers(): void {
-        window.addEventListener('resize', this.onResize, false);
+        this.blockSize = {
+            width: this.parentElement.offsetWidth,
+            height: this.parentElement.offsetHeight,
+        };
+
+        if (typeof ResizeObserver !== 'undefined') {
+            this.resizeObserver = new ResizeObserver(this.onResize);
+            this.resizeObserver.observe(this.parentElement);
+        } else {
+            window.addEventListener('resize', this.onResize, false);
+        }
+
+        if (this.app.getSettings().useKeyboard) this.keyboard.attach();
+        if (this.app.getSettings().useWheel) this.wheel.attach();
+        if (this.app.getSettings().useZoom) this.zoom.attach();
+        this.fullscreen.attach();
+
         if (!this.app.getSettings().useMouseEvents) return;
 
         this.distElement.addEventListener('mousedown', this.onMouseDown);
@@ -152,37 +266,29 @@ export abstract class UI {
     }
 
     /**
-     * Convert global coordinates to relative book coordinates
+     * Convert window coordinates to relative book coordinates
      *
      * @param x
      * @param y
      */
     private getMousePos(x: number, y: number): Point {
-        const rect = this.distElement.getBoundingClientRect();
-
-        return {
-            x: x - rect.left,
-            y: y - rect.top,
-        };
+        return this.app.getRender().convertClientToGlobal({ x, y });
     }
 
-    private checkTarget(target: EventTarget): boolean {
-        if (!this.app.getSettings().clickEventForward) return true;
-
-        const element = target as HTMLElement;
+    /**
+     * Check if the element is inside an area excluded by the swipeExcludeSelectors setting
+     *
+     * @param {HTMLElement} element
+     */
+    public isExcludedTarget(element: HTMLElement): boolean {
         const settings = this.app.getSettings();
 
-        // 기본 제외 태그
-        if (['a', 'button'].includes(element.tagName.toLowerCase())) {
-            return false;
-        }
-
         // 🎯 사용자 정의 제외 영역
         if (settings.swipeExcludeSelectors && settings.swipeExcludeSelectors.length > 0) {
             for (const selector of settings.swipeExcludeSelectors) {
                 try {
                     if (element.matches(selector) || element.closest(selector)) {
-                        return false;
+                        return true;
                     }
                 } catch (e) {
                     // 잘못된 CSS 선택자인 경우 무시
@@ -191,7 +297,20 @@ export abstract class UI {
             }
         }
 
-        return true;
+        return false;
+    }
+
+    private checkTarget(target: EventTarget): boolean {
+        if (!this.app.getSettings().clickEventForward) return true;
+
+        const element = target as HTMLElement;
+
+        // 기본 제외 태그
+        if (['a', 'button'].includes(element.tagName.toLowerCase())) {
+            return false;
+        }
+
+        return !this.isExcludedTarget(element);
     }
 
     private onMouseDown = (e: MouseEvent): void => {
@@ -288,8 +407,8 @@ export abstract class UI {
 
             let isSwipe = false;
 
-            // swipe detection
-            if (this.touchPoint !== null) {
+            // swipe detection, the zoomed book is panned instead
+            if (this.touchPoint !== null && !this.zoom.isActive()) {
                 const dx = pos.x - this.touchPoint.point.x;
                 const distY = Math.abs(pos.y - this.touchPoint.point.y);
 
@@ -298,14 +417,15 @@ export abstract class UI {
                     distY < this.swipeDistance * 2 &&
                     Date.now() - this.touchPoint.time < this.swipeTimeout
                 ) {
-                    if (dx > 0) {
-                        this.app.flipPrev(
+                    // A rightward swipe turns forward in the right-to-left mode
+                    if (dx > 0 !== this.app.isRtl()) {
+                        void this.app.flipPrev(
                             this.touchPoint.point.y < this.app.getRender().getRect().height / 2
                                 ? FlipCorner.TOP
                                 : FlipCorner.BOTTOM,
                         );
                     } else {
-                        this.app.flipNext(
+                        void this.app.flipNext(
                             this.touchPoint.point.y < this.app.getRender().getRect().height / 2
                                 ? FlipCorner.TOP
                                 : FlipCorner.BOTTOM,
@@ -313,10 +433,9 @@ export abstract class UI {
                     }
                     isSwipe = true;
                 }
-
-                this.touchPoint = null;
             }
 
+            this.touchPoint = null;
             this.app.userStop(pos, isSwipe);
         }
     };
@@ -0,0 +1,180 @@
+import { PageFlip } from '../PageFlip';
+import { Point } from '../BasicTypes';
+import { FlipDirection, FlippingState } from '../Flip/Flip';
+import { WheelAxis } from '../Settings';
+
+/**
+ * Mouse wheel and trackpad navigation. Accumulates wheel deltas and turns the pages
+ */
+export class WheelController {
+    private readonly element: HTMLElement;
+    private readonly app: PageFlip;
+
+    /** Accumulated delta of the current gesture (px), positive values turn forward */
+    private delta = 0;
+    private lastFlipTime = 0;
+
+    /** Gesture ends when there are no wheel events during this time (ms) */
+    private readonly gestureTimeout = 150;
+    private gestureTimer: ReturnType<typeof setTimeout> = null;
+
+    /** Delta (px) needed to turn the page */
+    private readonly threshold = 100;
+
+    /** Fold position of the trackpad dragging, null if the page is not folded */
+    private foldStart: Point = null;
+    private foldDirection: FlipDirection = null;
+    private foldPos: Point = null;
+
+    /**
+     * @constructor
+     *
+     * @param {HTMLElement} element - Element listening to the wheel events
+     * @param {PageFlip} app - PageFlip instanse
+     */
+    constructor(element: HTMLElement, app: PageFlip) {
+        this.element = element;
+        this.app = app;
+    }
+
+    public attach(): void {
+        this.element.addEventListener('wheel', this.onWheel, { passive: false });
+    }
+
+    public detach(): void {
+        this.element.removeEventListener('wheel', this.onWheel);
+
+        this.endGesture();
+    }
+
+    /**
+     * Get the delta (px) of the event along the configured axis. Null if the event is on another axis.
+     * The axes are relative to the book: in the top binding mode the horizontal axis is the vertical one of the screen
+     *
+     * @param {WheelEvent} e
+     */
+    private getDelta(e: WheelEvent): number {
+        const setting = this.app.getSettings();
+
+        const { x: deltaX, y: deltaY } = this.app
+            .getRender()
+            .toScreenAxes({ x: e.deltaX, y: e.deltaY });
+
+        const isHorizontal = Math.abs(deltaX) > Math.abs(deltaY);
+
+        let delta = null;
+        if (isHorizontal && setting.wheelAxis !== WheelAxis.VERTICAL) {
+            // Horizontal gestures follow the screen direction of flipping
+            delta = this.app.isRtl() ? -deltaX : deltaX;
+        } else if (!isHorizontal && setting.wheelAxis !== WheelAxis.HORIZONTAL) {
+            delta = deltaY;
+        }
+
+        if (delta === null) return null;
+
+        // Line and page modes of the old mouse wheels
+        if (e.deltaMode === WheelEvent.DOM_DELTA_LINE) delta *= 16;
+        else if (e.deltaMode === WheelEvent.DOM_DELTA_PAGE) delta *= this.threshold;
+
+        return delta * setting.wheelSensitivity * (setting.wheelInvert ? -1 : 1);
+    }
+
+    private onWheel = (e: WheelEvent): void => {
+        // Pinch gestures of the trackpads are sent with ctrlKey, the zoomed book is panned
+        if (e.ctrlKey || this.app.getUI().getZoom().isActive()) return;
+
+        const delta = this.getDelta(e);
+        if (delta === null) return;
+
+        // The vertical scrolling of the page is kept while mobileScrollSupport is enabled
+        const isPageScroll = Math.abs(e.deltaY) > Math.abs(e.deltaX);
+        if (!isPageScroll || !this.app.getSettings().mobileScrollSupport) e.preventDefault();
+
+        this.delta += delta;
+
+        clearTimeout(this.gestureTimer);
+        this.gestureTimer = setTimeout(() => this.endGesture(), this.gestureTimeout);
+
+        if (this.app.getSettings().wheelFold) this.fold();
+        else this.turn();
+    };
+
+    /**
+     * Turn the page when the accumulated delta exceeds the threshold
+     */
+    private turn(): void {
+        // Inertial scrolling after the turn is ignored
+        if (Date.now() - this.lastFlipTime < this.app.getSettings().wheelCooldown) {
+            this.delta = 0;
+            return;
+        }
+
+        if (Math.abs(this.delta) < this.threshold) return;
+
+        if (this.delta > 0) void this.app.flipNext();
+        else void this.app.flipPrev();
+
+        this.delta = 0;
+        this.lastFlipTime = Date.now();
+    }
+
+    /**
+     * Fold the page following the accumulated delta (continuous trackpad dragging)
+     */
+    private fold(): void {
+        if (this.foldStart === null) {
+            if (this.app.getState() !== FlippingState.READ) {
+                this.delta = 0;
+                return;
+            }
+
+            // Small deltas are not folding, the user touch would end by the click flipping
+            if (Math.abs(this.delta) < 10) return;
+
+            const rect = this.app.getRender().getRect();
+
+            // Turning forward folds the left page in the right-to-left mode
+            this.foldDirection =
+                this.delta > 0 !== this.app.isRtl() ? FlipDirection.FORWARD : FlipDirection.BACK;
+            this.foldStart = {
+                x:
+                    this.foldDirection === FlipDirection.FORWARD
+                        ? rect.left + rect.width - 1
+                        : rect.left + 1,
+                y: rect.top + rect.height - 1,
+            };
+
+            this.app.startUserTouch(this.foldStart);
+        }
+
+        // Delta of the opposite sign unfolds the page
+        const distance =
+            this.foldDirection === FlipDirection.FORWARD
+                ? Math.max(this.delta, 0)
+                : Math.max(-this.delta, 0);
+
+        const rect = this.app.getRender().getRect();
+        const x =
+            this.foldDirection === FlipDirection.FORWARD
+                ? Math.max(this.foldStart.x - distance, rect.left)
+                : Math.min(this.foldStart.x + distance, rect.left + rect.width);
+
+        this.foldPos = { x, y: this.foldStart.y };
+        this.app.userMove(this.foldPos, true);
+    }
+
+    private endGesture(): void {
+        clearTimeout(this.gestureTimer);
+        this.gestureTimer = null;
+
+        if (this.foldStart !== null) {
+            this.app.userStop(this.foldPos ?? this.foldStart);
+
+            this.foldStart = null;
+            this.foldPos = null;
+            this.foldDirection = null;
+        }
+
+        this.delta = 0;
+    }
+}
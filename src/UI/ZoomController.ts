@@ -0,0 +1,311 @@
+import { PageFlip } from '../PageFlip';
+import { Point } from '../BasicTypes';
+import { Helper } from '../Helper';
+
+/**
+ * Zoom and pan of the book. Scales the wrapper element with the css transform
+ */
+export class ZoomController {
+    private readonly element: HTMLElement;
+    private readonly wrapper: HTMLElement;
+    private readonly app: PageFlip;
+
+    private scale = 1;
+    private translate: Point = { x: 0, y: 0 };
+
+    /** Pinch gesture: distance between the fingers and the scale at the start */
+    private pinch: { distance: number; scale: number; center: Point } = null;
+    private isPinching = false;
+
+    /** Last pointer position while panning, null if the book is not panned */
+    private panPoint: Point = null;
+
+    /** Last tap, for the double tap detection */
+    private lastTap: { point: Point; time: number } = null;
+    private readonly doubleTapTimeout = 300;
+
+    /** Click flipping the page, delayed until it is not the first click of a double click */
+    private clickTimer: ReturnType<typeof setTimeout> = null;
+    /** End of the double click / double tap: the clicks before it do not flip the page */
+    private suppressClickUntil = 0;
+
+    /**
+     * @constructor
+     *
+     * @param {HTMLElement} element - Root element (stf__parent) listening to the gestures
+     * @param {HTMLElement} wrapper - Element scaled by the zoom
+     * @param {PageFlip} app - PageFlip instanse
+     */
+    constructor(element: HTMLElement, wrapper: HTMLElement, app: PageFlip) {
+        this.element = element;
+        this.wrapper = wrapper;
+        this.app = app;
+    }
+
+    public attach(): void {
+        this.wrapper.style.transformOrigin = '0 0';
+
+        this.element.addEventListener('wheel', this.onWheel, { passive: false });
+        this.element.addEventListener('dblclick', this.onDoubleClick);
+        this.element.addEventListener('mousedown', this.onMouseDown);
+        this.element.addEventListener('touchstart', this.onTouchStart, { passive: false });
+        this.element.addEventListener('touchmove', this.onTouchMove, { passive: false });
+        window.addEventListener('mousemove', this.onMouseMove);
+        window.addEventListener('mouseup', this.onMouseUp);
+        window.addEventListener('touchend', this.onTouchEnd);
+    }
+
+    public detach(): void {
+        this.element.removeEventListener('wheel', this.onWheel);
+        this.element.removeEventListener('dblclick', this.onDoubleClick);
+        this.element.removeEventListener('mousedown', this.onMouseDown);
+        this.element.removeEventListener('touchstart', this.onTouchStart);
+        this.element.removeEventListener('touchmove', this.onTouchMove);
+        window.removeEventListener('mousemove', this.onMouseMove);
+        window.removeEventListener('mouseup', this.onMouseUp);
+        window.removeEventListener('touchend', this.onTouchEnd);
+
+        this.cancelClick();
+    }
+
+    /**
+     * Run the click action (page flipping) unless the click turns out to be a part of a double click or double tap
+     *
+     * @param {Function} action - Click action
+     */
+    public deferClick(action: () => void): void {
+        if (!this.app.getSettings().useZoom) {
+            action();
+            return;
+        }
+
+        // The second click of a double click zooms the book instead
+        if (this.clickTimer !== null || Date.now() < this.suppressClickUntil) {
+            this.cancelClick();
+            return;
+        }
+
+        this.clickTimer = setTimeout(() => {
+            this.clickTimer = null;
+            action();
+        }, this.doubleTapTimeout);
+    }
+
+    private cancelClick(): void {
+        if (this.clickTimer !== null) clearTimeout(this.clickTimer);
+
+        this.clickTimer = null;
+    }
+
+    /**
+     * Get current zoom level (1: no zoom)
+     */
+    public getScale(): number {
+        return this.scale;
+    }
+
+    /**
+     * Check if the page flipping by the user is suspended: the book is zoomed in or pinched
+     */
+    public isActive(): boolean {
+        return this.scale > 1 || this.isPinching;
+    }
+
+    /**
+     * Set zoom level keeping the point in place
+     *
+     * @param {number} scale - New zoom level, clamped to minZoom..maxZoom
+     * @param {Point} point - Fixed point relative to the root element. Center of the book by default
+     */
+    public zoomTo(scale: number, point?: Point): void {
+        const setting = this.app.getSettings();
+        const newScale = Math.min(Math.max(scale, setting.minZoom), setting.maxZoom);
+
+        if (!point) {
+            point = {
+                x: this.wrapper.offsetWidth / 2,
+                y: this.wrapper.offsetHeight / 2,
+            };
+        }
+
+        const k = newScale / this.scale;
+        this.translate = {
+            x: point.x - (point.x - this.translate.x) * k,
+            y: point.y - (point.y - this.translate.y) * k,
+        };
+
+        const isChanged = newScale !== this.scale;
+        this.scale = newScale;
+
+        this.applyTransform();
+
+        if (isChanged) this.app.updateZoom(this.scale);
+    }
+
+    /**
+     * Reset zoom and pan
+     */
+    public resetZoom(): void {
+        this.zoomTo(1);
+    }
+
+    /**
+     * Move the zoomed book
+     *
+     * @param {number} dx
+     * @param {number} dy
+     */
+    public pan(dx: number, dy: number): void {
+        this.translate = { x: this.translate.x + dx, y: this.translate.y + dy };
+
+        this.applyTransform();
+    }
+
+    private applyTransform(): void {
+        // The scaled book always covers its original area
+        const width = this.wrapper.offsetWidth;
+        const height = this.wrapper.offsetHeight;
+
+        this.translate = {
+            x: Math.min(Math.max(this.translate.x, width - width * this.scale), 0),
+            y: Math.min(Math.max(this.translate.y, height - height * this.scale), 0),
+        };
+
+        if (this.scale === 1) {
+            this.wrapper.style.transform = '';
+            this.element.classList.remove('--zoomed');
+        } else {
+            this.wrapper.style.transform = `translate(${this.translate.x}px, ${this.translate.y}px) scale(${this.scale})`;
+            this.element.classList.add('--zoomed');
+        }
+    }
+
+    /**
+     * Convert window coordinates to the coordinates relative to the root element
+     */
+    private getPoint(x: number, y: number): Point {
+        const rect = this.element.getBoundingClientRect();
+
+        return {
+            x: x - rect.left,
+            y: y - rect.top,
+        };
+    }
+
+    private toggleZoom(point: Point): void {
+        // Neither click of the gesture flips the page
+        this.cancelClick();
+        this.suppressClickUntil = Date.now() + this.doubleTapTimeout;
+
+        if (this.scale > 1) this.resetZoom();
+        else this.zoomTo(this.app.getSettings().zoomStep, point);
+    }
+
+    private onWheel = (e: WheelEvent): void => {
+        if (e.ctrlKey) {
+            e.preventDefault();
+
+            this.zoomTo(
+                this.scale * Math.exp(-e.deltaY / 100),
+                this.getPoint(e.clientX, e.clientY),
+            );
+        } else if (this.scale > 1) {
+            e.preventDefault();
+
+            this.pan(-e.deltaX, -e.deltaY);
+        }
+    };
+
+    private onDoubleClick = (e: MouseEvent): void => {
+        this.toggleZoom(this.getPoint(e.clientX, e.clientY));
+    };
+
+    private onMouseDown = (e: MouseEvent): void => {
+        if (this.scale > 1) this.panPoint = { x: e.clientX, y: e.clientY };
+    };
+
+    private onMouseMove = (e: MouseEvent): void => {
+        if (this.panPoint === null) return;
+
+        this.pan(e.clientX - this.panPoint.x, e.clientY - this.panPoint.y);
+        this.panPoint = { x: e.clientX, y: e.clientY };
+    };
+
+    private onMouseUp = (): void => {
+        this.panPoint = null;
+    };
+
+    private onTouchStart = (e: TouchEvent): void => {
+        if (e.touches.length === 2) {
+            const a = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+            const b = { x: e.touches[1].clientX, y: e.touches[1].clientY };
+
+            this.isPinching = true;
+            this.panPoint = null;
+            this.pinch = {
+                distance: Helper.GetDistanceBetweenTwoPoint(a, b),
+                scale: this.scale,
+                center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+            };
+
+            e.preventDefault();
+        } else if (e.touches.length === 1) {
+            const t = e.touches[0];
+            const point = { x: t.clientX, y: t.clientY };
+
+            if (
+                this.lastTap !== null &&
+                Date.now() - this.lastTap.time < this.doubleTapTimeout &&
+                Helper.GetDistanceBetweenTwoPoint(this.lastTap.point, point) < 30
+            ) {
+                this.lastTap = null;
+                this.toggleZoom(this.getPoint(point.x, point.y));
+
+                e.preventDefault();
+                return;
+            }
+
+            this.lastTap = { point, time: Date.now() };
+
+            if (this.scale > 1) this.panPoint = point;
+        }
+    };
+
+    private onTouchMove = (e: TouchEvent): void => {
+        if (this.pinch !== null && e.touches.length === 2) {
+            const a = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+            const b = { x: e.touches[1].clientX, y: e.touches[1].clientY };
+            const center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+
+            this.pan(center.x - this.pinch.center.x, center.y - this.pinch.center.y);
+            this.pinch.center = center;
+
+            this.zoomTo(
+                (this.pinch.scale * Helper.GetDistanceBetweenTwoPoint(a, b)) / this.pinch.distance,
+                this.getPoint(center.x, center.y),
+            );
+
+            e.preventDefault();
+        } else if (this.panPoint !== null && e.touches.length === 1) {
+            const t = e.touches[0];
+
+            this.pan(t.clientX - this.panPoint.x, t.clientY - this.panPoint.y);
+            this.panPoint = { x: t.clientX, y: t.clientY };
+
+            e.preventDefault();
+        }
+    };
+
+    private onTouchEnd = (e: TouchEvent): void => {
+        if (e.touches.length < 2) this.pinch = null;
+
+        if (e.touches.length === 0) {
+            this.panPoint = null;
+
+            // The book handlers of this touchend still see the pinch
+            setTimeout(() => {
+                this.isPinching = false;
+            });
+        }
+    };
+}